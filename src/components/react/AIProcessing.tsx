@@ -1,19 +1,24 @@
 import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Check, Loader2 } from 'lucide-react';
+import { Check, Loader2, X } from 'lucide-react';
 import { useAppStore } from '../../lib/store';
 import { t } from '../../lib/i18n';
-import { organizeNotes } from '../../lib/groq';
-import { organizeNotesWithGemini } from '../../lib/gemini';
+import { getProvider } from '../../lib/providers';
 
 export default function AIProcessing() {
     const {
-        transcription, apiKey, geminiKey, provider,
-        aiStep, setAiStep,
+        provider, organizeProvider, activeProvider, providerSettings,
+        aiStep, setAiStep, notesPreview,
         setOrganizedNotes, setStep, setError, locale,
-        setTitle // Import setTitle
+        setTitle, // Import setTitle
+        cancelProcessing
     } = useAppStore();
     const started = useRef(false);
+    const previewRef = useRef<HTMLDivElement>(null);
+
+    // The provider and model writing the notes: the running stage's (failover may have moved it), else the configured organizer
+    const organizer = getProvider(activeProvider ?? organizeProvider ?? provider);
+    const chatModel = providerSettings[organizer.id]?.chatModel?.trim() || organizer.defaults?.chatModel;
 
     const steps = [
         t('app.ai.step1', locale),
@@ -36,6 +41,11 @@ export default function AIProcessing() {
         }
     }, []);
 
+    // Keep the newest streamed text in view
+    useEffect(() => {
+        if (previewRef.current) previewRef.current.scrollTop = previewRef.current.scrollHeight;
+    }, [notesPreview]);
+
     return (
         <div className="text-center space-y-8">
             {/* Header */}
@@ -44,10 +54,7 @@ export default function AIProcessing() {
                     {t('app.ai.title', locale)}
                 </h2>
                 <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
-                    {provider === 'gemini'
-                        ? (locale === 'es' ? 'Gemini Flash 2.0 está creando tus apuntes' : 'Gemini Flash 2.0 is creating your notes')
-                        : t('app.ai.desc', locale)
-                    }
+                    {organizer.label} {t('app.ai.desc', locale)}
                 </p>
             </div>
 
@@ -87,11 +94,38 @@ export default function AIProcessing() {
                 })}
             </div>
 
+            {/* Live preview of the notes as they stream in */}
+            {notesPreview && (
+                <div className="max-w-lg mx-auto text-left">
+                    <p className="text-[10px] font-medium uppercase tracking-wider mb-2" style={{ color: 'var(--text-muted)' }}>
+                        {t('app.ai.preview', locale)}
+                    </p>
+                    <div
+                        ref={previewRef}
+                        className="p-3 rounded-lg text-xs leading-relaxed whitespace-pre-wrap max-h-56 overflow-y-auto custom-scrollbar"
+                        style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-subtle)', color: 'var(--text-secondary)' }}
+                    >
+                        {notesPreview}
+                    </div>
+                </div>
+            )}
+
             {/* Provider badge */}
             <div className="inline-flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md" style={{
                 background: 'var(--accent-subtle)', border: '1px solid var(--accent)', color: 'var(--accent)',
             }}>
-                {provider === 'gemini' ? 'Gemini Flash 2.0' : 'Llama 3.3 70B'}
+                {chatModel ? `${organizer.label} · ${chatModel}` : organizer.label}
+            </div>
+
+            <div>
+                <button
+                    onClick={cancelProcessing}
+                    className="inline-flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md transition-colors"
+                    style={{ color: 'var(--text-muted)', border: '1px solid var(--border-subtle)' }}
+                >
+                    <X size={12} />
+                    {t('app.processing.cancel', locale)}
+                </button>
             </div>
         </div>
     );
@@ -3,8 +3,11 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { Settings, X, Globe, Sun, Moon } from 'lucide-react';
 import { useAppStore } from '../../lib/store';
 import { t } from '../../lib/i18n';
+import { getProvider, isPipelineConfigured } from '../../lib/providers';
 import UploadZone from './UploadZone';
 import ConfigModal from './ConfigModal';
+import ProfilesModal from './ProfilesModal';
+import GlossaryModal from './GlossaryModal';
 import TranscriptionProgress from './TranscriptionProgress';
 import AIProcessing from './AIProcessing';
 import NotesEditor from './NotesEditor';
@@ -17,10 +20,12 @@ const MOBILE_VERTICAL_OFFSET = "-60px"; // Ajuste para teléfono
 // ------------------------------------
 
 export default function AppMain() {
-    const { step, configOpen, setConfigOpen, error, setError, apiKey, geminiKey, provider, locale, setLocale, processingState, theme, toggleTheme } = useAppStore();
+    const { step, configOpen, setConfigOpen, profilesOpen, glossaryOpen, error, setError, keys, provider, organizeProvider, providerSettings, locale, setLocale, processingState, theme, toggleTheme } = useAppStore();
 
-    const isConnected = provider === 'gemini' ? !!geminiKey : !!apiKey;
-    const providerLabel = provider === 'gemini' ? 'Gemini' : 'Groq';
+    const isConnected = isPipelineConfigured(provider, organizeProvider, keys, providerSettings);
+    const providerLabel = organizeProvider && organizeProvider !== provider
+        ? `${getProvider(provider).label} + ${getProvider(organizeProvider).label}`
+        : getProvider(provider).label;
 
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
         if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
@@ -160,8 +165,8 @@ export default function AppMain() {
     // Sync Provider badge with Global Navbar
     useEffect(() => {
         const label = document.getElementById('provider-label');
-        if (label) label.textContent = provider === 'gemini' ? 'Gemini' : 'Groq';
-    }, [provider]);
+        if (label) label.textContent = providerLabel;
+    }, [providerLabel]);
 
     // Handle open config from Global Navbar
     useEffect(() => {
@@ -234,6 +239,12 @@ export default function AppMain() {
             <AnimatePresence>
                 {configOpen && <ConfigModal />}
             </AnimatePresence>
+
+            {/* Note profiles editor */}
+            <AnimatePresence>
+                {profilesOpen && <ProfilesModal />}
+                {glossaryOpen && <GlossaryModal />}
+            </AnimatePresence>
         </div>
     );
 }
@@ -1,58 +1,100 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { X, Eye, EyeOff, Clipboard, ExternalLink, Check, BadgeCheck, Loader2 } from 'lucide-react';
-import { useAppStore } from '../../lib/store';
+import { X, Eye, EyeOff, Clipboard, ExternalLink, Check, BadgeCheck, Loader2, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { useAppStore, type Provider } from '../../lib/store';
 import { t } from '../../lib/i18n';
-import { validateGroqKey } from '../../lib/groq';
-import { validateGeminiKey } from '../../lib/gemini';
+import { PROVIDER_LIST, getProvider, modelsForField, fieldsForRoles, type AIProvider, type ProviderRole, type ProviderSettings, type ProviderSettingField, type StoredUpload } from '../../lib/providers';
+
+const FIELD_PLACEHOLDERS: Record<ProviderSettingField, string> = {
+    baseUrl: 'http://localhost:8000/v1',
+    transcriptionModel: 'whisper-1',
+    chatModel: 'llama3.1:8b',
+};
 
 export default function ConfigModal() {
     const {
-        apiKey, setApiKey, geminiKey, setGeminiKey,
+        keys, setKey, getKey,
+        providerSettings, setProviderSettings,
         provider, setProvider, setConfigOpen,
+        organizeProvider, setOrganizeProvider,
+        providerPriority, setProviderPriority,
+        fallbackProviders, toggleFallbackProvider,
         pdfStyle, setPdfStyle, locale, processingState
     } = useAppStore();
 
     const isProcessing = processingState !== 'idle' && processingState !== 'done' && processingState !== 'error';
+    const active = getProvider(provider);
+    const organizer = getProvider(organizeProvider ?? provider);
+
+    // Providers the current pipeline uses, with the job each one does
+    const pipeline: { p: AIProvider; roles: ProviderRole[] }[] = organizer.id === active.id
+        ? [{ p: active, roles: ['transcribe', 'organize'] }]
+        : [{ p: active, roles: ['transcribe'] }, { p: organizer, roles: ['organize'] }];
 
-    const [groqInput, setGroqInput] = useState('');
-    const [geminiInput, setGeminiInput] = useState('');
-    const [showGroq, setShowGroq] = useState(false);
-    const [showGemini, setShowGemini] = useState(false);
+    const [inputs, setInputs] = useState<Partial<Record<Provider, string>>>({});
+    const [drafts, setDrafts] = useState<Partial<Record<Provider, ProviderSettings>>>({});
+    const [modelOptions, setModelOptions] = useState<Partial<Record<Provider, string[]>>>({});
+    const [showKey, setShowKey] = useState(false);
     const [saved, setSaved] = useState(false);
     const [validating, setValidating] = useState(false);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
+    const [purging, setPurging] = useState<Provider | null>(null);
+    const [uploads, setUploads] = useState<Partial<Record<Provider, StoredUpload[]>>>({});
+    const [purged, setPurged] = useState<Partial<Record<Provider, number>>>({});
     const inputRef = useRef<HTMLInputElement>(null);
 
+    const setKeyInput = (id: Provider, value: string) => setInputs((prev) => ({ ...prev, [id]: value }));
+    const settingsFor = (id: Provider) => drafts[id] ?? providerSettings[id] ?? {};
+    const setField = (id: Provider, field: ProviderSettingField, value: string) =>
+        setDrafts((prev) => ({ ...prev, [id]: { ...settingsFor(id), [field]: value } }));
+
     useEffect(() => {
         inputRef.current?.focus();
     }, []);
 
+    // Populate model suggestions from the provider's /models listing
+    const loadModels = async (id: Provider, current: ProviderSettings) => {
+        const p = getProvider(id);
+        let models: string[] = [];
+        try {
+            if (p.listModels) models = await p.listModels({ apiKey: await getKey(id), settings: current });
+        } catch { }
+        setModelOptions((prev) => ({ ...prev, [id]: models }));
+    };
+
+    useEffect(() => {
+        loadModels(active.id, providerSettings[active.id] ?? {});
+    }, [active.id]);
+
+    useEffect(() => {
+        if (organizer.id !== active.id) loadModels(organizer.id, providerSettings[organizer.id] ?? {});
+    }, [organizer.id]);
+
     const handleSave = async () => {
         setErrorMsg(null);
         setValidating(true);
 
         try {
-            if (groqInput) {
-                const isValid = await validateGroqKey(groqInput.trim());
-                if (!isValid) {
-                    setErrorMsg(t('app.config.error.groq', locale));
-                    setValidating(false);
-                    return;
-                }
-                await setApiKey(groqInput.trim());
-                setGroqInput('');
-            }
+            for (const p of PROVIDER_LIST) {
+                const input = inputs[p.id]?.trim();
+                const draft = drafts[p.id];
+                if (!input && !draft) continue;
 
-            if (geminiInput) {
-                const isValid = await validateGeminiKey(geminiInput.trim());
+                const ctx = {
+                    apiKey: input || await getKey(p.id),
+                    settings: draft ?? providerSettings[p.id] ?? {},
+                };
+                const isValid = await p.validateKey(ctx);
                 if (!isValid) {
-                    setErrorMsg(t('app.config.error.gemini', locale));
+                    setErrorMsg(t(`app.config.error.${p.id}` as any, locale));
                     setValidating(false);
                     return;
                 }
-                await setGeminiKey(geminiInput.trim());
-                setGeminiInput('');
+                if (draft) setProviderSettings(p.id, draft);
+                if (input) await setKey(p.id, input);
+                setInputs((prev) => ({ ...prev, [p.id]: '' }));
+                setDrafts((prev) => ({ ...prev, [p.id]: undefined }));
+                if (pipeline.some((entry) => entry.p.id === p.id)) loadModels(p.id, ctx.settings);
             }
 
             setSaved(true);
@@ -64,11 +106,50 @@ export default function ConfigModal() {
         }
     };
 
-    const handlePaste = async (target: 'groq' | 'gemini') => {
+    // Recordings a provider still stores (interrupted jobs, failed deletes): listed first, deleted on confirm
+    const handleListUploads = async (p: AIProvider) => {
+        if (!p.listUploads) return;
+        setErrorMsg(null);
+        setPurging(p.id);
+        try {
+            const list = await p.listUploads({ apiKey: await getKey(p.id), settings: providerSettings[p.id] ?? {} });
+            setUploads((prev) => ({ ...prev, [p.id]: list }));
+            setPurged((prev) => ({ ...prev, [p.id]: undefined }));
+        } catch (e) {
+            setErrorMsg(t('app.config.error.network', locale));
+        } finally {
+            setPurging(null);
+        }
+    };
+
+    const handlePurge = async (p: AIProvider) => {
+        const list = uploads[p.id];
+        if (!p.deleteUploads || !list?.length) return;
+        setErrorMsg(null);
+        setPurging(p.id);
+        try {
+            const count = await p.deleteUploads({ apiKey: await getKey(p.id), settings: providerSettings[p.id] ?? {} }, list);
+            setPurged((prev) => ({ ...prev, [p.id]: count }));
+            setUploads((prev) => ({ ...prev, [p.id]: undefined }));
+        } catch (e) {
+            setErrorMsg(t('app.config.error.network', locale));
+        } finally {
+            setPurging(null);
+        }
+    };
+
+    const movePriority = (index: number, offset: number) => {
+        const order = [...providerPriority];
+        const target = index + offset;
+        if (target < 0 || target >= order.length) return;
+        [order[index], order[target]] = [order[target], order[index]];
+        setProviderPriority(order);
+    };
+
+    const handlePaste = async (id: Provider) => {
         try {
             const text = await navigator.clipboard.readText();
-            if (target === 'groq') setGroqInput(text.trim());
-            else setGeminiInput(text.trim());
+            setKeyInput(id, text.trim());
         } catch { }
     };
 
@@ -106,138 +187,227 @@ export default function ConfigModal() {
                         <label className="text-xs font-medium mb-2 block" style={{ color: 'var(--text-secondary)' }}>
                             {t('app.config.provider', locale)}
                         </label>
-                        <div className="grid grid-cols-2 gap-2">
-                            <button
-                                onClick={() => !isProcessing && setProvider('groq')}
-                                disabled={isProcessing}
-                                className={`py-2.5 px-3 rounded-lg text-xs font-medium transition-all ${isProcessing ? 'cursor-not-allowed' : ''}`}
-                                style={{
-                                    background: provider === 'groq' ? 'var(--accent-subtle)' : 'var(--bg-primary)',
-                                    border: `1px solid ${provider === 'groq' ? 'var(--accent)' : 'var(--border-default)'}`,
-                                    color: provider === 'groq' ? 'var(--accent)' : 'var(--text-muted)',
-                                }}
-                            >
-                                <span className="block font-semibold mb-0.5">Groq</span>
-                                <span className="block text-[10px] opacity-70">Whisper + Llama 4 Scout</span>
-                            </button>
-                            <button
-                                onClick={() => !isProcessing && setProvider('gemini')}
-                                disabled={isProcessing}
-                                className={`py-2.5 px-3 rounded-lg text-xs font-medium transition-all ${isProcessing ? 'cursor-not-allowed' : ''}`}
-                                style={{
-                                    background: provider === 'gemini' ? 'var(--accent-subtle)' : 'var(--bg-primary)',
-                                    border: `1px solid ${provider === 'gemini' ? 'var(--accent)' : 'var(--border-default)'}`,
-                                    color: provider === 'gemini' ? 'var(--accent)' : 'var(--text-muted)',
-                                }}
-                            >
-                                <span className="block font-semibold mb-0.5">Gemini</span>
-                                <span className="block text-[10px] opacity-70">Flash 2.0</span>
-                            </button>
+                        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${PROVIDER_LIST.length}, minmax(0, 1fr))` }}>
+                            {PROVIDER_LIST.map((p) => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => !isProcessing && setProvider(p.id)}
+                                    disabled={isProcessing}
+                                    className={`py-2.5 px-3 rounded-lg text-xs font-medium transition-all ${isProcessing ? 'cursor-not-allowed' : ''}`}
+                                    style={{
+                                        background: provider === p.id ? 'var(--accent-subtle)' : 'var(--bg-primary)',
+                                        border: `1px solid ${provider === p.id ? 'var(--accent)' : 'var(--border-default)'}`,
+                                        color: provider === p.id ? 'var(--accent)' : 'var(--text-muted)',
+                                    }}
+                                >
+                                    <span className="block font-semibold mb-0.5">{p.label}</span>
+                                    <span className="block text-[10px] opacity-70">{p.models}</span>
+                                </button>
+                            ))}
                         </div>
                     </div>
 
-                    {/* Groq API Key */}
-                    {provider === 'groq' && (
-                        <div>
-                            <label className="text-xs font-medium mb-2 flex items-center justify-between" style={{ color: 'var(--text-secondary)' }}>
-                                <span className="flex items-center gap-1.5">
-                                    Groq API Key
-                                    {apiKey && !groqInput && (
-                                        <span className="flex items-center gap-1 text-[10px] bg-emerald-500/10 text-emerald-500 px-1.5 py-0.5 rounded border border-emerald-500/20 font-semibold">
-                                            <BadgeCheck size={10} />
-                                            {t('app.config.active_encrypted', locale)}
-                                        </span>
+                    {/* Organization provider (defaults to the transcription provider) */}
+                    <div>
+                        <label htmlFor="organize-provider" className="text-xs font-medium mb-2 block" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.config.organize_provider', locale)}
+                        </label>
+                        <select
+                            id="organize-provider"
+                            name="organize-provider"
+                            value={organizeProvider ?? ''}
+                            onChange={(e) => setOrganizeProvider((e.target.value || null) as Provider | null)}
+                            disabled={isProcessing}
+                            className="w-full rounded-lg px-3 outline-none text-sm py-2.5 disabled:cursor-not-allowed"
+                            style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                        >
+                            <option value="">{t('app.config.same_provider', locale)}</option>
+                            {PROVIDER_LIST.map((p) => (
+                                <option key={p.id} value={p.id}>{p.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Fallback order when a stage fails */}
+                    <div>
+                        <label className="text-xs font-medium mb-1 block" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.config.fallback', locale)}
+                        </label>
+                        <p className="text-[10px] mb-2" style={{ color: 'var(--text-muted)' }}>
+                            {t('app.config.fallback_hint', locale)}
+                        </p>
+                        <div className="space-y-1">
+                            {providerPriority.map((id, i) => (
+                                <div key={id} className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-xs" style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-secondary)' }}>
+                                    <span className="font-mono text-[10px]" style={{ color: 'var(--text-muted)' }}>{i + 1}</span>
+                                    <label className="flex-1 flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            name={`fallback-${id}`}
+                                            checked={fallbackProviders.includes(id)}
+                                            onChange={() => toggleFallbackProvider(id)}
+                                            disabled={isProcessing}
+                                            style={{ accentColor: 'var(--accent)' }}
+                                        />
+                                        {getProvider(id).label}
+                                    </label>
+                                    {!keys[id] && !getProvider(id).key.optional && (
+                                        <span className="text-[10px] opacity-70">{t('app.config.no_key', locale)}</span>
                                     )}
-                                </span>
-                                {groqInput.length > 5 && (
-                                    <span className={`text-[10px] ${groqInput.startsWith('gsk_') ? 'text-green-500' : 'text-red-500'}`}>
-                                        {groqInput.startsWith('gsk_') ? t('app.config.valid_format', locale) : t('app.config.invalid_format_groq', locale)}
-                                    </span>
-                                )}
-                                {groqInput.length <= 5 && (
-                                    <span className="text-[10px] text-[var(--text-muted)] opacity-70">
-                                        {t('app.config.format_label', locale)} gsk_...
-                                    </span>
-                                )}
-                            </label>
-                            <div className="flex gap-2">
-                                <div className={`flex-1 flex items-center rounded-lg px-3 transition-colors ${groqInput.length > 0 && !groqInput.startsWith('gsk_') ? 'border-red-500/50 bg-red-500/5' : ''}`} style={{ background: 'var(--bg-primary)', border: groqInput.length > 0 && !groqInput.startsWith('gsk_') ? '1px solid rgba(239,68,68,0.5)' : '1px solid var(--border-default)' }}>
-                                    <input
-                                        ref={inputRef}
-                                        id="groq-api-key"
-                                        name="groq-api-key"
-                                        type={showGroq ? 'text' : 'password'}
-                                        value={groqInput}
-                                        onChange={(e) => setGroqInput(e.target.value)}
-                                        placeholder={apiKey ? t('app.config.new_key', locale) : 'gsk_...'}
-                                        className="flex-1 bg-transparent border-none outline-none text-sm py-2.5 font-mono"
-                                        style={{ color: 'var(--text-primary)' }}
-                                    />
-                                    <button onClick={() => setShowGroq(!showGroq)} className="p-1 ml-1" style={{ color: 'var(--text-muted)' }}>
-                                        {showGroq ? <EyeOff size={14} /> : <Eye size={14} />}
+                                    <button onClick={() => movePriority(i, -1)} disabled={i === 0 || isProcessing} className="p-0.5 disabled:opacity-30" style={{ color: 'var(--text-muted)' }}>
+                                        <ChevronUp size={14} />
+                                    </button>
+                                    <button onClick={() => movePriority(i, 1)} disabled={i === providerPriority.length - 1 || isProcessing} className="p-0.5 disabled:opacity-30" style={{ color: 'var(--text-muted)' }}>
+                                        <ChevronDown size={14} />
                                     </button>
                                 </div>
-                                <button onClick={() => handlePaste('groq')} className="px-3 rounded-lg text-xs transition-colors" style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-default)', color: 'var(--text-secondary)' }}>
-                                    <Clipboard size={14} />
-                                </button>
-                            </div>
-                            <a href="https://console.groq.com/keys" target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs mt-2 no-underline transition-colors" style={{ color: 'var(--accent)' }}>
-                                {t('app.config.groq.get', locale)}
-                                <ExternalLink size={11} />
-                            </a>
+                            ))}
                         </div>
-                    )}
+                    </div>
 
-                    {/* Gemini API Key */}
-                    {provider === 'gemini' && (
-                        <div>
-                            <label className="text-xs font-medium mb-2 flex items-center justify-between" style={{ color: 'var(--text-secondary)' }}>
-                                <span className="flex items-center gap-1.5">
-                                    Gemini API Key
-                                    {geminiKey && !geminiInput && (
-                                        <span className="flex items-center gap-1 text-[10px] bg-emerald-500/10 text-emerald-500 px-1.5 py-0.5 rounded border border-emerald-500/20 font-semibold">
-                                            <BadgeCheck size={10} />
-                                            {t('app.config.active_encrypted', locale)}
+                    {pipeline.map(({ p, roles }, index) => {
+                        const keyInput = inputs[p.id] || '';
+                        const hasValidPrefix = keyInput.startsWith(p.key.prefix);
+                        const settings = settingsFor(p.id);
+                        const models = modelOptions[p.id] || [];
+
+                        return (
+                            <div key={p.id} className="space-y-5">
+                                {/* Provider API Key */}
+                                <div>
+                                    <label className="text-xs font-medium mb-2 flex items-center justify-between" style={{ color: 'var(--text-secondary)' }}>
+                                        <span className="flex items-center gap-1.5">
+                                            {p.label} API Key
+                                            {p.key.optional && !keys[p.id] && (
+                                                <span className="text-[10px] opacity-70">({t('app.config.optional', locale)})</span>
+                                            )}
+                                            {keys[p.id] && !keyInput && (
+                                                <span className="flex items-center gap-1 text-[10px] bg-emerald-500/10 text-emerald-500 px-1.5 py-0.5 rounded border border-emerald-500/20 font-semibold">
+                                                    <BadgeCheck size={10} />
+                                                    {t('app.config.active_encrypted', locale)}
+                                                </span>
+                                            )}
                                         </span>
+                                        {keyInput.length > 5 && (
+                                            <span className={`text-[10px] ${hasValidPrefix ? 'text-green-500' : 'text-red-500'}`}>
+                                                {hasValidPrefix ? t('app.config.valid_format', locale) : t(`app.config.invalid_format_${p.id}` as any, locale)}
+                                            </span>
+                                        )}
+                                        {keyInput.length <= 5 && p.key.prefix && (
+                                            <span className="text-[10px] text-[var(--text-muted)] opacity-70">
+                                                {t('app.config.format_label', locale)} {p.key.placeholder}
+                                            </span>
+                                        )}
+                                    </label>
+                                    <div className="flex gap-2">
+                                        <div className={`flex-1 flex items-center rounded-lg px-3 transition-colors ${keyInput.length > 0 && !hasValidPrefix ? 'border-red-500/50 bg-red-500/5' : ''}`} style={{ background: 'var(--bg-primary)', border: keyInput.length > 0 && !hasValidPrefix ? '1px solid rgba(239,68,68,0.5)' : '1px solid var(--border-default)' }}>
+                                            <input
+                                                ref={index === 0 ? inputRef : undefined}
+                                                id={`${p.id}-api-key`}
+                                                name={`${p.id}-api-key`}
+                                                type={showKey ? 'text' : 'password'}
+                                                value={keyInput}
+                                                onChange={(e) => setKeyInput(p.id, e.target.value)}
+                                                placeholder={keys[p.id] ? t('app.config.new_key', locale) : p.key.placeholder}
+                                                className="flex-1 bg-transparent border-none outline-none text-sm py-2.5 font-mono"
+                                                style={{ color: 'var(--text-primary)' }}
+                                            />
+                                            <button onClick={() => setShowKey(!showKey)} className="p-1 ml-1" style={{ color: 'var(--text-muted)' }}>
+                                                {showKey ? <EyeOff size={14} /> : <Eye size={14} />}
+                                            </button>
+                                        </div>
+                                        <button onClick={() => handlePaste(p.id)} className="px-3 rounded-lg text-xs transition-colors" style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-default)', color: 'var(--text-secondary)' }}>
+                                            <Clipboard size={14} />
+                                        </button>
+                                    </div>
+                                    {p.key.url && (
+                                        <a href={p.key.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs mt-2 no-underline transition-colors" style={{ color: 'var(--accent)' }}>
+                                            {t(`app.config.${p.id}.get` as any, locale)}
+                                            <ExternalLink size={11} />
+                                        </a>
                                     )}
-                                </span>
-                                {geminiInput.length > 5 && (
-                                    <span className={`text-[10px] ${geminiInput.startsWith('AI') ? 'text-green-500' : 'text-red-500'}`}>
-                                        {geminiInput.startsWith('AI') ? t('app.config.valid_format', locale) : t('app.config.invalid_format_gemini', locale)}
-                                    </span>
-                                )}
-                                {geminiInput.length <= 5 && (
-                                    <span className="text-[10px] text-[var(--text-muted)] opacity-70">
-                                        {t('app.config.format_label', locale)} AIza...
+                                </div>
+
+                                {/* Provider settings (endpoint, models for the job it does) */}
+                                {fieldsForRoles(p.settingsFields || [], roles).map((field) => (
+                                    <div key={field}>
+                                        <label htmlFor={`${p.id}-${field}`} className="text-xs font-medium mb-2 flex items-center gap-1.5" style={{ color: 'var(--text-secondary)' }}>
+                                            {t(`app.config.field.${field}` as any, locale)}
+                                            {!p.requiredSettings?.includes(field) && (
+                                                <span className="text-[10px] opacity-70">({t('app.config.optional', locale)})</span>
+                                            )}
+                                        </label>
+                                        <input
+                                            id={`${p.id}-${field}`}
+                                            name={`${p.id}-${field}`}
+                                            type={field === 'baseUrl' ? 'url' : 'text'}
+                                            list={field === 'baseUrl' ? undefined : `${p.id}-${field}-models`}
+                                            value={settings[field] || ''}
+                                            onChange={(e) => setField(p.id, field, e.target.value)}
+                                            placeholder={p.defaults?.[field] || FIELD_PLACEHOLDERS[field]}
+                                            className="w-full rounded-lg px-3 bg-transparent outline-none text-sm py-2.5 font-mono"
+                                            style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                                        />
+                                        {field !== 'baseUrl' && models.length > 0 && (
+                                            <datalist id={`${p.id}-${field}-models`}>
+                                                {modelsForField(models, field).map((m) => <option key={m} value={m} />)}
+                                            </datalist>
+                                        )}
+                                    </div>
+                                ))}
+
+                            </div>
+                        );
+                    })}
+
+                    {/* Uploaded recordings left in a provider's storage (any provider with a key, in the pipeline or not) */}
+                    {PROVIDER_LIST.filter((p) => p.listUploads && keys[p.id]).map((p) => {
+                        const list = uploads[p.id];
+                        return (
+                            <div key={p.id} className="space-y-2">
+                                <div className="flex items-center justify-between gap-3">
+                                    <span className="text-[10px] leading-relaxed" style={{ color: 'var(--text-muted)' }}>
+                                        {purged[p.id] !== undefined
+                                            ? `${p.label}: ${purged[p.id]} ${t('app.config.purge.done', locale)}`
+                                            : list
+                                                ? `${p.label}: ${list.length} ${t('app.config.purge.found', locale)}`
+                                                : `${p.label}: ${t('app.config.purge.hint', locale)}`}
                                     </span>
-                                )}
-                            </label>
-                            <div className="flex gap-2">
-                                <div className={`flex-1 flex items-center rounded-lg px-3 transition-colors ${geminiInput.length > 0 && !geminiInput.startsWith('AI') ? 'border-red-500/50 bg-red-500/5' : ''}`} style={{ background: 'var(--bg-primary)', border: geminiInput.length > 0 && !geminiInput.startsWith('AI') ? '1px solid rgba(239,68,68,0.5)' : '1px solid var(--border-default)' }}>
-                                    <input
-                                        id="gemini-api-key"
-                                        name="gemini-api-key"
-                                        type={showGemini ? 'text' : 'password'}
-                                        value={geminiInput}
-                                        onChange={(e) => setGeminiInput(e.target.value)}
-                                        placeholder={geminiKey ? t('app.config.new_key', locale) : 'AIza...'}
-                                        className="flex-1 bg-transparent border-none outline-none text-sm py-2.5 font-mono"
-                                        style={{ color: 'var(--text-primary)' }}
-                                    />
-                                    <button onClick={() => setShowGemini(!showGemini)} className="p-1 ml-1" style={{ color: 'var(--text-muted)' }}>
-                                        {showGemini ? <EyeOff size={14} /> : <Eye size={14} />}
-                                    </button>
+                                    {list?.length ? (
+                                        <button
+                                            onClick={() => handlePurge(p)}
+                                            disabled={purging !== null || isProcessing}
+                                            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs whitespace-nowrap transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                            style={{ border: '1px solid rgba(239,68,68,0.3)', color: '#f87171' }}
+                                        >
+                                            {purging === p.id ? <Loader2 size={13} className="animate-spin" /> : <Trash2 size={13} />}
+                                            {t('app.config.purge.confirm', locale)}
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleListUploads(p)}
+                                            disabled={purging !== null || isProcessing}
+                                            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs whitespace-nowrap transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                            style={{ border: '1px solid var(--border-default)', color: 'var(--text-secondary)' }}
+                                        >
+                                            {purging === p.id && <Loader2 size={13} className="animate-spin" />}
+                                            {t('app.config.purge', locale)}
+                                        </button>
+                                    )}
                                 </div>
-                                <button onClick={() => handlePaste('gemini')} className="px-3 rounded-lg text-xs transition-colors" style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-default)', color: 'var(--text-secondary)' }}>
-                                    <Clipboard size={14} />
-                                </button>
+                                {list && list.length > 0 && (
+                                    <ul className="rounded-lg px-3 py-2 space-y-1 max-h-32 overflow-y-auto custom-scrollbar text-[11px] font-mono" style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-subtle)', color: 'var(--text-secondary)' }}>
+                                        {list.map((u) => (
+                                            <li key={u.name} className="flex justify-between gap-3">
+                                                <span className="truncate">{u.displayName}</span>
+                                                <span className="whitespace-nowrap" style={{ color: 'var(--text-muted)' }}>{(u.sizeBytes / (1024 * 1024)).toFixed(1)} MB</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
                             </div>
-                            <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs mt-2 no-underline transition-colors" style={{ color: 'var(--accent)' }}>
-                                {t('app.config.gemini.get', locale)}
-                                <ExternalLink size={11} />
-                            </a>
-                        </div>
-                    )}
+                        );
+                    })}
 
                     {/* Privacy note */}
                     <p className="text-xs leading-relaxed" style={{ color: 'var(--text-muted)' }}>
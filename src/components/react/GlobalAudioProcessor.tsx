@@ -1,20 +1,26 @@
 import { useEffect, useRef } from 'react';
 import { useAppStore } from '../../lib/store';
-import { processAudioForUpload } from '../../lib/audio-processor';
-import { transcribeAudio, organizeNotes } from '../../lib/groq';
+import { processAudioForUpload, CHUNK_OVERLAP_SECONDS, type ProcessedAudio } from '../../lib/audio-processor';
+import { getProvider, isProviderConfigured, fallbackOrder, type PipelineStage, type ProviderRole } from '../../lib/providers';
+import { withFailover } from '../../lib/failover';
+import { notesStep, renderNotesMarkdown } from '../../lib/notes';
+import { termsFromNotes } from '../../lib/glossary';
+import { applySpeakerNames, withDefaultNames } from '../../lib/speakers';
+import { lineFlags } from '../../lib/transcript-quality';
 import { t } from '../../lib/i18n';
-import { transcribeWithGemini, organizeNotesWithGemini } from '../../lib/gemini';
-import { updateProjectState, db } from '../../lib/db'; // Import DB
+import { updateProjectState, projectCheckpoints, clearCheckpoints, getProfilePrompt, getGlossary, addGlossaryTerms, saveSegments, getSegments, db, type CheckpointStore } from '../../lib/db'; // Import DB
+import type { Provider } from '../../lib/store';
 
 export default function GlobalAudioProcessor() {
     const {
-        file, apiKey, geminiKey, provider, locale,
+        file, keys, provider, organizeProvider, providerPriority, fallbackProviders, providerSettings, locale, sourceLanguage,
         processingState, setProcessingState,
-        setProcessingProgress, setCompressionInfo,
+        setProcessingProgress, setCompressionInfo, setUploadedBytes, setActiveProvider,
         setTranscription, setStep, setError,
-        setOrganizedNotes, setAiStep, setTitle,
+        setOrganizedNotes, setNotesPreview, setAiStep, setTitle, setSpeakerNames, setTranscriptFlags,
+        setRateLimitUntil,
         currentProjectId, restoreSession,
-        activeKey // Get the async getter
+        getKey // Async getter (keys are decrypted on demand)
     } = useAppStore();
 
     // Restore session on mount
@@ -45,6 +51,8 @@ export default function GlobalAudioProcessor() {
     useEffect(() => {
         if (!file || processingState !== 'compressing') {
             if (processingState === 'idle') {
+                // Cancelled (or reset) while running: stop in-flight requests and the encoder
+                if (processingRef.current) abortControllerRef.current?.abort();
                 processingRef.current = false;
             }
             return;
@@ -57,10 +65,20 @@ export default function GlobalAudioProcessor() {
             const signal = abortControllerRef.current?.signal;
             const isCancelled = () => signal?.aborted ?? false;
 
-            // Decrypt key on demand
-            const key = await activeKey();
+            // Chosen provider for each stage, then the configured fallbacks the user enabled (keys decrypted on demand)
+            const stagesFor = async (primary: Provider, role: ProviderRole): Promise<PipelineStage[]> => {
+                const stages: PipelineStage[] = [];
+                for (const id of fallbackOrder(primary, providerPriority, fallbackProviders)) {
+                    const settings = providerSettings[id] || {};
+                    if (!isProviderConfigured(id, keys[id], settings, [role])) continue;
+                    stages.push({ provider: getProvider(id), ctx: { apiKey: await getKey(id), settings } });
+                }
+                return stages;
+            };
+            const transcribers = await stagesFor(provider, 'transcribe');
+            const organizers = await stagesFor(organizeProvider ?? provider, 'organize');
 
-            if (!key) {
+            if (!transcribers.length || !organizers.length) {
                 setError('Falta API Key');
                 setProcessingState('error');
                 setStep('upload');
@@ -69,11 +87,7 @@ export default function GlobalAudioProcessor() {
             }
 
             try {
-                if (provider === 'gemini') {
-                    await runGeminiFlow(key, isCancelled);
-                } else {
-                    await runGroqFlow(key, isCancelled);
-                }
+                await runFlow(transcribers, organizers, isCancelled, signal);
             } catch (err: any) {
                 if (isCancelled()) return;
                 console.error(err);
@@ -89,79 +103,110 @@ export default function GlobalAudioProcessor() {
 
         // NO CLEANUP FUNCTION HERE that cancels the process
         // Cancellation is handled by the dedicated effect or user action
-    }, [file, processingState, apiKey, geminiKey, provider]);
+    }, [file, processingState, keys, provider, organizeProvider, providerPriority, fallbackProviders, providerSettings]);
 
-    const runGeminiFlow = async (key: string, isCancelled: () => boolean) => {
-        try {
-            // Step 1: Process (extract audio/compress)
-            // processingState is already 'compressing'
-            const processed = await processAudioForUpload(file!, (_stage, p) => {
-                if (!isCancelled()) {
-                    setProcessingProgress(p);
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'upload', subStep: 'compressing', progress: p });
-                }
-            });
-            if (isCancelled()) return;
+    const runFlow = async (transcribers: PipelineStage[], organizers: PipelineStage[], isCancelled: () => boolean, signal?: AbortSignal) => {
+        // Rate-limit waits inside provider calls, shown as a countdown
+        const onWait = (seconds: number) => {
+            if (!isCancelled()) setRateLimitUntil(seconds > 0 ? Date.now() + seconds * 1000 : 0);
+        };
+        const onFallback = () => onWait(0);
 
-            if (processed.wasCompressed) {
-                const saved = Math.round((1 - processed.compressedSize / processed.originalSize) * 100);
-                const sizeStr = (processed.compressedSize / (1024 * 1024)).toFixed(1);
+        try {
+            // Resume: whatever finished before a reload/crash is reused instead of redone
+            const savedState = currentProjectId ? await db.processingState.where({ projectId: currentProjectId }).first() : undefined;
+            const checkpointsFor = (stage: PipelineStage) => currentProjectId ? projectCheckpoints(currentProjectId, stage.provider.id) : undefined;
+            // Choices made at upload: course (glossary), note profile and notes language
+            const project = currentProjectId ? await db.projects.get(currentProjectId) : undefined;
+            let text = savedState?.transcription || '';
+
+            if (text) {
+                console.log('[GlobalAudioProcessor] Resuming from saved transcription');
+                if (currentProjectId) setTranscriptFlags(lineFlags(await getSegments(currentProjectId)));
+            } else {
+                const glossary = await getGlossary(project?.course);
+                const transcribed = await withFailover(transcribers, (stage) => {
+                    setActiveProvider(stage.provider.id);
+                    return transcribeWith(stage, checkpointsFor(stage), glossary, isCancelled, onWait, signal);
+                }, { signal, onFallback });
+                if (isCancelled()) return;
 
-                const label = file!.type.startsWith('video/')
-                    ? t('notif.audio_extracted', locale)
-                    : t('notif.audio_optimized', locale);
+                text = transcribed.result.text;
+                if (currentProjectId) {
+                    db.projects.update(currentProjectId, {
+                        transcriptionProvider: transcribed.provider,
+                        ...(transcribed.result.language ? { detectedLanguage: transcribed.result.language } : {}),
+                    });
+                }
 
-                setCompressionInfo(
-                    `${label}: ${sizeStr}MB (-${saved}%)`
-                );
-            }
+                console.log('[GlobalAudioProcessor] Transcription complete. Length:', text.length);
 
-            // Step 2: Upload to Gemini
-            setProcessingState('uploading');
-            setProcessingProgress(0);
+                if (!text || text.trim().length === 0) {
+                    throw new Error(locale === 'es'
+                        ? 'La transcripción está vacía.'
+                        : 'Transcription is empty.');
+                }
 
-            const text = await transcribeWithGemini(processed.chunks[0], key, (p) => {
-                if (isCancelled()) return;
-                if (p < 0.5) {
-                    setProcessingState('uploading');
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'upload', subStep: 'uploading', progress: p });
-                } else {
-                    setProcessingState('transcribing');
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'transcribing', subStep: 'transcribing', progress: p });
+                if (currentProjectId) {
+                    await updateProjectState(currentProjectId, { transcription: text });
+                    if (transcribed.result.segments) await saveSegments(currentProjectId, transcribed.result.segments);
                 }
-                setProcessingProgress(p);
-            });
-            if (isCancelled()) return;
+                setTranscriptFlags(lineFlags(transcribed.result.segments ?? []));
+            }
 
             setTranscription(text);
-            if (currentProjectId) updateProjectState(currentProjectId, { transcription: text });
 
-            // Step 3: Analyze / Organize
+            // Step 3: Analyze / Organize Notes
             setProcessingState('analyzing');
-            setStep('ai-processing');
-            setAiStep(0);
+            setActiveProvider(null); // The transcriber's; the organizer stage sets its own
+            setStep('ai-processing'); // Ensure UI is on the right screen
 
-            const organizeKey = key;
-            // We use organizeNotesWithGemini directly
-            const notes = await organizeNotesWithGemini(text, organizeKey, (s) => {
-                if (!isCancelled()) {
-                    setAiStep(s);
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'ai-processing', progress: s / 5 });
-                }
-            });
+            const language = project?.notesLanguage ?? locale;
+            const prompt = await getProfilePrompt(project?.profileId, language);
+
+            // The organizer reads speaker names instead of IDs, so renames made before now carry into the notes
+            const speakers = withDefaultNames(text, project?.speakers ?? {}, language);
+            setSpeakerNames(speakers);
+            if (currentProjectId) db.projects.update(currentProjectId, { speakers });
+            const namedText = applySpeakerNames(text, speakers);
+
+            const organized = await withFailover(organizers, (stage) => {
+                // Reset AI step and preview (also when a fallback provider starts over)
+                let reached = 0;
+                setActiveProvider(stage.provider.id);
+                setAiStep(0);
+                setNotesPreview('');
+                console.log(`[GlobalAudioProcessor] Organizing notes with ${stage.provider.label}...`);
+                return stage.provider.organize(namedText, stage.ctx, {
+                    prompt,
+                    language,
+                    checkpoints: checkpointsFor(stage),
+                    signal,
+                    onWait,
+                    onPartial: (partial) => {
+                        if (isCancelled()) return;
+                        setNotesPreview(renderNotesMarkdown(partial, language));
+                        // Steps follow the sections actually received (never going back for the reduce pass)
+                        const step = notesStep(partial);
+                        if (step > reached) {
+                            reached = step;
+                            setAiStep(step);
+                            if (currentProjectId) updateProjectState(currentProjectId, { step: 'ai-processing', progress: step / 5 });
+                        }
+                    },
+                });
+            }, { signal, onFallback });
 
             if (isCancelled()) return;
+            const notes = organized.result;
 
-            // Extract Title
-            let cleanNotes = notes;
-            const titleMatch = notes.match(/^## Título\s*\n(.+)/m);
-            if (titleMatch) {
-                const extractedTitle = titleMatch[1].trim().replace(/\*\*/g, '');
-                setTitle(extractedTitle);
-                cleanNotes = notes.replace(/^## Título\s*\n.+\n*/m, '').trim();
-            }
+            // The title is shown separately; the editor works on the rest as markdown
+            const cleanNotes = renderNotesMarkdown(notes, language);
+            if (notes.title) setTitle(notes.title);
 
+            setAiStep(5);
             setOrganizedNotes(cleanNotes);
+            setNotesPreview('');
             setProcessingState('done');
 
             // Mark DB as done
@@ -170,125 +215,98 @@ export default function GlobalAudioProcessor() {
                     step: 'editor',
                     subStep: 'done',
                     progress: 1,
-                    organizedNotes: cleanNotes
+                    organizedNotes: cleanNotes,
+                    notes
                 });
-                db.projects.update(currentProjectId, { status: 'done', title: cleanNotes.match(/^## Título\s*\n(.+)/m)?.[1]?.trim() || 'Untitled Note' });
+                db.projects.update(currentProjectId, { status: 'done', title: notes.title || 'Untitled Note', notesProvider: organized.provider });
+                clearCheckpoints(currentProjectId);
             }
 
+            // Next classes of the course get this one's key concepts as vocabulary
+            if (project?.course) addGlossaryTerms(project.course, termsFromNotes(notes));
+
             setStep('editor');
 
         } catch (err: any) {
+            console.error('[GlobalAudioProcessor] Error:', err);
             // Error handling is now done in the useEffect's run function
             throw err;
         }
     };
 
-    const runGroqFlow = async (key: string, isCancelled: () => boolean) => {
-        try {
-            // Step 1: Process (compress + maybe chunk)
-            setProcessingState('compressing');
-            const processed = await processAudioForUpload(file!, (_stage, p) => {
+    // Steps 1-2 on one provider: process the audio for its upload limit, then transcribe
+    const transcribeWith = async (
+        { provider, ctx }: PipelineStage,
+        checkpoints: CheckpointStore | undefined,
+        glossary: string[],
+        isCancelled: () => boolean,
+        onWait: (seconds: number) => void,
+        signal?: AbortSignal
+    ) => {
+        // Step 1: Process (compress + chunk if the provider can't take the whole file)
+        setProcessingState('compressing');
+        setProcessingProgress(0);
+        const audioKey = `audio:${provider.capabilities.maxUploadSize}`;
+        const audioCheckpoints = currentProjectId ? projectCheckpoints(currentProjectId) : undefined;
+        let processed = await audioCheckpoints?.get<ProcessedAudio>(audioKey);
+
+        if (processed) {
+            console.log('[GlobalAudioProcessor] Resuming with saved processed audio');
+        } else {
+            processed = await processAudioForUpload(file!, (_stage, p) => {
                 if (!isCancelled()) {
                     setProcessingProgress(p);
                     if (currentProjectId) updateProjectState(currentProjectId, { step: 'upload', subStep: 'compressing', progress: p });
                 }
+            }, {
+                maxUploadSize: provider.capabilities.maxUploadSize,
+                overlapSeconds: CHUNK_OVERLAP_SECONDS,
+                signal,
             });
-            if (isCancelled()) return;
-
-            if (processed.wasCompressed) {
-                const saved = Math.round((1 - processed.compressedSize / processed.originalSize) * 100);
-                const sizeStr = (processed.compressedSize / (1024 * 1024)).toFixed(1);
-
-                const label = file!.type.startsWith('video/')
-                    ? t('notif.audio_extracted', locale)
-                    : t('notif.audio_optimized', locale);
-
-                const fragmentsLabel = t('notif.chunks', locale);
-
-                setCompressionInfo(
-                    `${label}: ${sizeStr}MB (-${saved}%)${processed.wasChunked ? ` · ${processed.chunks.length} ${fragmentsLabel}` : ''}`
-                );
-            }
-
-            // Step 2: Transcribe
-            setProcessingState('transcribing');
-            setProcessingProgress(0.05); // Start with some progress
-            if (currentProjectId) updateProjectState(currentProjectId, { step: 'transcribing', subStep: 'initializing', progress: 0.05 });
-            console.log('[GlobalAudioProcessor] Starting Groq transcription...');
-
-            const text = await transcribeAudio(processed.chunks, key, (p) => {
-                if (!isCancelled()) {
-                    console.log(`[GlobalAudioProcessor] Progress: ${Math.round(p * 100)}%`);
-                    setProcessingProgress(p);
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'transcribing', progress: p });
-                }
-            });
-
-            if (isCancelled()) return;
-
-            console.log('[GlobalAudioProcessor] Transcription complete. Length:', text.length);
-
-            if (!text || text.trim().length === 0) {
-                throw new Error(locale === 'es'
-                    ? 'La transcripción está vacía.'
-                    : 'Transcription is empty.');
-            }
-
-            setTranscription(text);
-            if (currentProjectId) updateProjectState(currentProjectId, { transcription: text });
-
-            // Step 3: Analyze / Organize Notes
-            setProcessingState('analyzing');
-            setStep('ai-processing'); // Ensure UI is on the right screen
-
-            // We use the same callback pattern for progress
-            const organize = provider === 'gemini' ? organizeNotesWithGemini : organizeNotes;
-            const organizeKey = key; // Use the decrypted key we already have
-
-            if (!organizeKey) throw new Error('No API Key for organization');
-
-            // Reset AI step
-            setAiStep(0);
-
-            const notes = await organize(text, organizeKey, (s) => {
-                if (!isCancelled()) {
-                    setAiStep(s);
-                    if (currentProjectId) updateProjectState(currentProjectId, { step: 'ai-processing', progress: s / 5 });
-                }
-            });
-
-            if (isCancelled()) return;
-
-            // Extract Title
-            let cleanNotes = notes;
-            const titleMatch = notes.match(/^## Título\s*\n(.+)/m);
-            if (titleMatch) {
-                const extractedTitle = titleMatch[1].trim().replace(/\*\*/g, '');
-                setTitle(extractedTitle);
-                cleanNotes = notes.replace(/^## Título\s*\n.+\n*/m, '').trim();
-            }
+            if (processed.wasCompressed) await audioCheckpoints?.set(audioKey, processed);
+        }
 
-            setOrganizedNotes(cleanNotes);
-            setProcessingState('done');
+        if (processed.wasCompressed) {
+            const saved = Math.round((1 - processed.compressedSize / processed.originalSize) * 100);
+            const sizeStr = (processed.compressedSize / (1024 * 1024)).toFixed(1);
 
-            // Mark DB as done
-            if (currentProjectId) {
-                updateProjectState(currentProjectId, {
-                    step: 'editor',
-                    subStep: 'done',
-                    progress: 1,
-                    organizedNotes: cleanNotes
-                });
-                db.projects.update(currentProjectId, { status: 'done', title: cleanNotes.match(/^## Título\s*\n(.+)/m)?.[1]?.trim() || 'Untitled Note' });
-            }
+            const label = file!.type.startsWith('video/')
+                ? t('notif.audio_extracted', locale)
+                : t('notif.audio_optimized', locale);
 
-            setStep('editor');
+            const fragmentsLabel = t('notif.chunks', locale);
 
-        } catch (err: any) {
-            console.error('[GlobalAudioProcessor] Error:', err);
-            // Error handling is now done in the useEffect's run function
-            throw err;
+            setCompressionInfo(
+                `${label}: ${sizeStr}MB (-${saved}%)${processed.wasChunked ? ` · ${processed.chunks.length} ${fragmentsLabel}` : ''}`
+            );
         }
+
+        // Step 2: Upload (if needed) + Transcribe
+        const initialStage = provider.capabilities.requiresUpload ? 'uploading' : 'transcribing';
+        setProcessingState(initialStage);
+        setProcessingProgress(0);
+        setUploadedBytes(null);
+        if (currentProjectId) updateProjectState(currentProjectId, { step: initialStage === 'uploading' ? 'upload' : 'transcribing', subStep: initialStage, progress: 0 });
+        console.log(`[GlobalAudioProcessor] Starting ${provider.label} transcription...`);
+
+        return provider.transcribe(processed.chunks, ctx, {
+            language: sourceLanguage === 'auto' ? undefined : sourceLanguage,
+            glossary,
+            ranges: processed.ranges,
+            checkpoints,
+            signal,
+            onWait,
+            onUploadBytes: (sent, total) => {
+                if (!isCancelled()) setUploadedBytes({ sent, total });
+            },
+            onProgress: (stage, p) => {
+                if (isCancelled()) return;
+                if (stage !== 'uploading') setUploadedBytes(null);
+                setProcessingState(stage);
+                setProcessingProgress(p);
+                if (currentProjectId) updateProjectState(currentProjectId, { step: stage === 'uploading' ? 'upload' : 'transcribing', subStep: stage, progress: p });
+            },
+        });
     };
 
     return null; // Headless component
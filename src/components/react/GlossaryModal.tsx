@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check } from 'lucide-react';
+import { useAppStore } from '../../lib/store';
+import { t } from '../../lib/i18n';
+import { getGlossary, saveGlossary } from '../../lib/db';
+
+export default function GlossaryModal() {
+    const { setGlossaryOpen, course, locale } = useAppStore();
+    const courseName = course.trim();
+
+    const [terms, setTerms] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        getGlossary(courseName).then((list) => setTerms(list.join('\n')));
+    }, [courseName]);
+
+    const handleSave = async () => {
+        if (!courseName) return;
+        await saveGlossary(courseName, terms.split('\n'));
+        setTerms((await getGlossary(courseName)).join('\n'));
+        setSaved(true);
+        setTimeout(() => setSaved(false), 1500);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            style={{ background: 'rgba(0,0,0,0.6)', backdropFilter: 'blur(4px)' }}
+            onClick={() => setGlossaryOpen(false)}
+        >
+            <motion.div
+                initial={{ opacity: 0, scale: 0.97, y: 8 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.97, y: 8 }}
+                transition={{ duration: 0.2 }}
+                className="w-full max-w-md rounded-xl overflow-hidden max-h-[90vh] overflow-y-auto custom-scrollbar"
+                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)' }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-5 py-4 sticky top-0 z-10" style={{ borderBottom: '1px solid var(--border-subtle)', background: 'var(--bg-secondary)' }}>
+                    <h2 className="text-sm font-semibold truncate" style={{ color: 'var(--text-primary)' }}>
+                        {t('app.glossary.title', locale)}{courseName && ` · ${courseName}`}
+                    </h2>
+                    <button onClick={() => setGlossaryOpen(false)} className="p-1 rounded-md transition-colors" style={{ color: 'var(--text-muted)' }}>
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-5">
+                    {courseName ? (
+                        <>
+                            <div>
+                                <label htmlFor="glossary-terms" className="text-xs font-medium mb-2 block" style={{ color: 'var(--text-secondary)' }}>
+                                    {t('app.glossary.terms', locale)}
+                                </label>
+                                <textarea
+                                    id="glossary-terms"
+                                    name="glossary-terms"
+                                    value={terms}
+                                    onChange={(e) => setTerms(e.target.value)}
+                                    rows={12}
+                                    placeholder={t('app.glossary.placeholder', locale)}
+                                    className="w-full rounded-lg px-3 py-2.5 outline-none text-xs font-mono leading-relaxed custom-scrollbar"
+                                    style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                                />
+                                <p className="text-[10px] mt-1" style={{ color: 'var(--text-muted)' }}>
+                                    {t('app.glossary.hint', locale)}
+                                </p>
+                            </div>
+
+                            <button
+                                onClick={handleSave}
+                                className="w-full py-2.5 rounded-lg text-sm font-medium text-white transition-colors flex items-center justify-center gap-2"
+                                style={{ background: saved ? '#10b981' : 'var(--accent)' }}
+                            >
+                                {saved ? <><Check size={14} /> {t('app.config.saved', locale)}</> : t('app.config.save', locale)}
+                            </button>
+                        </>
+                    ) : (
+                        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                            {t('app.glossary.no_course', locale)}
+                        </p>
+                    )}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
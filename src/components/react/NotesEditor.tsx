@@ -1,12 +1,14 @@
 import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Copy, Check, Download, Loader2, RotateCcw, PenLine, Eye, FileText, ExternalLink } from 'lucide-react';
+import { Copy, Check, Download, Loader2, RotateCcw, PenLine, Eye, FileText, ExternalLink, Users, AlertTriangle } from 'lucide-react';
 import { useAppStore } from '../../lib/store';
 import { t } from '../../lib/i18n';
 import { generatePdf } from '../../lib/pdf-generator';
+import { extractTitle, SECTION_NAMES } from '../../lib/notes-merge';
+import { applySpeakerNames, speakerIds } from '../../lib/speakers';
 
 export default function NotesEditor() {
-    const { editedNotes, setEditedNotes, file, reset, locale, transcription, pdfStyle, setPdfStyle, title, theme } = useAppStore();
+    const { editedNotes, setEditedNotes, file, reset, locale, transcription, transcriptFlags, speakerNames, renameSpeaker, pdfStyle, setPdfStyle, title, theme } = useAppStore();
     const [copied, setCopied] = useState(false);
     const [downloading, setDownloading] = useState(false);
     const [downloaded, setDownloaded] = useState(false);
@@ -14,18 +16,22 @@ export default function NotesEditor() {
     const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit');
     const [showTranscript, setShowTranscript] = useState(false);
 
+    // Transcript with speaker IDs replaced by their (renameable) names
+    const speakers = useMemo(() => speakerIds(transcription), [transcription]);
+    const namedTranscript = useMemo(() => applySpeakerNames(transcription, speakerNames), [transcription, speakerNames]);
+    const flaggedCount = Object.keys(transcriptFlags).length;
+
     // Derived title logic
     const derivedTitle = useMemo(() => {
         if (title) return title;
 
-        const explicitMatch = editedNotes.match(/^## T[íi]tulo\s*\n+([^\n]+)/m);
-        if (explicitMatch) return explicitMatch[1].trim().replace(/\*\*/g, '');
+        const explicit = extractTitle(editedNotes).title;
+        if (explicit) return explicit;
 
         const firstLineMatch = editedNotes.match(/^\s*#{1,2}\s+([^\n]+)/);
         if (firstLineMatch) {
             const candidate = firstLineMatch[1].trim();
-            const reserved = ['Resumen', 'Conceptos', 'Definiciones', 'Contenido', 'Introducción'];
-            if (!reserved.some(r => candidate.includes(r))) {
+            if (!SECTION_NAMES.some(r => candidate.includes(r))) {
                 return candidate.replace(/\*\*/g, '');
             }
         }
@@ -34,7 +40,7 @@ export default function NotesEditor() {
     }, [title, editedNotes, file]);
 
     const handleCopy = async () => {
-        await navigator.clipboard.writeText(showTranscript ? transcription : editedNotes);
+        await navigator.clipboard.writeText(showTranscript ? namedTranscript : editedNotes);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
     };
@@ -42,12 +48,12 @@ export default function NotesEditor() {
     const handleDownload = () => {
         setDownloading(true);
         setTimeout(() => {
-            let finalContent = showTranscript ? transcription : editedNotes;
+            let finalContent = showTranscript ? namedTranscript : editedNotes;
 
             if (!title && !showTranscript) {
-                let cleaned = finalContent.replace(/^## T[íi]tulo\s*\n+[^\n]+\n*/m, '');
+                let cleaned = extractTitle(finalContent).body;
 
-                if (cleaned === finalContent) {
+                if (cleaned === finalContent.trim()) {
                     const firstLineMatch = finalContent.match(/^\s*#{1,2}\s+([^\n]+)/);
                     if (firstLineMatch) {
                         const candidate = firstLineMatch[1].trim();
@@ -203,7 +209,7 @@ export default function NotesEditor() {
         const styles = previewStyles;
 
         // Remover título del contenido
-        let contentToRender = editedNotes.replace(/^## T[íi]tulo\s*\n+[^\n]+\n*/m, '').trim();
+        let contentToRender = extractTitle(editedNotes).body;
 
         if (contentToRender === editedNotes.trim()) {
             const firstLineMatch = editedNotes.match(/^\s*#{1,2}\s+([^\n]+)/);
@@ -467,9 +473,9 @@ export default function NotesEditor() {
                     {/* View PDF Button */}
                     <button
                         onClick={() => {
-                            let finalContent = showTranscript ? transcription : editedNotes;
+                            let finalContent = showTranscript ? namedTranscript : editedNotes;
                             if (!title && !showTranscript) {
-                                finalContent = finalContent.replace(/^## T[íi]tulo\s*\n+[^\n]+\n*/m, '').trim();
+                                finalContent = extractTitle(finalContent).body;
                                 if (finalContent === editedNotes.trim()) {
                                     const firstLineMatch = editedNotes.match(/^\s*#{1,2}\s+([^\n]+)/);
                                     if (firstLineMatch && firstLineMatch[1].trim().replace(/\*\*/g, '') === derivedTitle) {
@@ -512,8 +518,50 @@ export default function NotesEditor() {
             <div className="flex-1 flex min-h-0 relative">
                 {showTranscript ? (
                     <div className="absolute inset-0 p-4 sm:p-5 overflow-auto custom-scrollbar">
+                        {/* Speakers: renaming updates the transcript and the notes */}
+                        {speakers.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 mb-4 pb-4" style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                                <span className="inline-flex items-center gap-1.5 text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                                    <Users size={14} />
+                                    {t('app.editor.speakers', locale)}
+                                </span>
+                                {speakers.map((id) => (
+                                    <input
+                                        key={`${id}:${speakerNames[id] ?? ''}`}
+                                        name={`speaker-${id}`}
+                                        aria-label={id}
+                                        defaultValue={speakerNames[id] ?? id}
+                                        onBlur={(e) => renameSpeaker(id, e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                        title={t('app.editor.speakers.rename', locale)}
+                                        className="text-xs px-2.5 py-1.5 rounded-md outline-none w-36"
+                                        style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                        {/* Passages the transcriber wasn't sure about */}
+                        {flaggedCount > 0 && (
+                            <div className="flex items-start gap-2 mb-4 p-3 rounded-lg text-xs" style={{ background: 'rgba(245,158,11,0.08)', border: '1px solid rgba(245,158,11,0.3)', color: 'var(--text-secondary)' }}>
+                                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" style={{ color: '#f59e0b' }} />
+                                <span>{flaggedCount} {t('app.editor.flagged', locale)}</span>
+                            </div>
+                        )}
                         <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
-                            {transcription}
+                            {namedTranscript.split('\n').map((line, i) => {
+                                const flag = transcriptFlags[i];
+                                if (!flag) return `${line}\n`;
+                                return (
+                                    <span
+                                        key={i}
+                                        className="block rounded-sm"
+                                        style={{ background: flag === 'repetition' ? 'rgba(239,68,68,0.12)' : 'rgba(245,158,11,0.15)' }}
+                                        title={t(flag === 'repetition' ? 'app.editor.flag.repetition' : 'app.editor.flag.low_confidence', locale)}
+                                    >
+                                        {line}
+                                    </span>
+                                );
+                            })}
                         </pre>
                     </div>
                 ) : (
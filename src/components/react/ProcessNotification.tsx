@@ -5,8 +5,9 @@ import { t } from '../../lib/i18n';
 import { Loader2, CheckCircle, ArrowRight } from 'lucide-react';
 
 export default function ProcessNotification() {
-    const { processingState, processingProgress, locale } = useAppStore();
+    const { processingState, processingProgress, uploadedBytes, rateLimitUntil, locale } = useAppStore();
     const [visible, setVisible] = useState(false);
+    const [waitSeconds, setWaitSeconds] = useState(0);
     const [isComplete, setIsComplete] = useState(false);
     const [isAppPage, setIsAppPage] = useState(false);
 
@@ -64,13 +65,25 @@ export default function ProcessNotification() {
 
     }, [processingState, isAppPage]);
 
+    // Countdown while a provider call waits out a rate limit
+    useEffect(() => {
+        const tick = () => setWaitSeconds(Math.max(0, Math.ceil((rateLimitUntil - Date.now()) / 1000)));
+        tick();
+        if (!rateLimitUntil) return;
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [rateLimitUntil]);
+
     if (isAppPage) return null;
 
     const getStatusText = () => {
         if (isComplete) return t('notif.done', locale);
+        if (waitSeconds > 0) return `${t('notif.rate_limited', locale)} (${waitSeconds}s)`;
         switch (processingState) {
             case 'compressing': return t('notif.compressing', locale);
-            case 'uploading': return t('notif.uploading', locale);
+            case 'uploading': return uploadedBytes
+                ? `${t('notif.uploading', locale)} ${(uploadedBytes.sent / (1024 * 1024)).toFixed(1)}/${(uploadedBytes.total / (1024 * 1024)).toFixed(1)}MB`
+                : t('notif.uploading', locale);
             case 'transcribing': return t('notif.transcribing', locale);
             case 'analyzing': return t('notif.analyzing', locale);
             default: return t('notif.processing', locale);
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Plus, Trash2, Eye, EyeOff, Check } from 'lucide-react';
+import { useAppStore } from '../../lib/store';
+import { t } from '../../lib/i18n';
+import { listProfiles, saveProfile, deleteProfile, type NoteProfile } from '../../lib/db';
+import { buildNotesMessages, defaultNotesPrompt, resolveProfilePrompt, SAMPLE_TRANSCRIPTION } from '../../lib/prompts';
+
+type Draft = Pick<NoteProfile, 'id' | 'name' | 'prompt'>;
+
+export default function ProfilesModal() {
+    const { setProfilesOpen, profileId, setProfileId, notesLanguage, locale } = useAppStore();
+    const language = notesLanguage === 'ui' ? locale : notesLanguage;
+
+    const [profiles, setProfiles] = useState<NoteProfile[]>([]);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [showPreview, setShowPreview] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    const load = async (selectId?: number) => {
+        const list = await listProfiles();
+        setProfiles(list);
+        const selected = list.find((p) => p.id === selectId) ?? list[0];
+        setDraft(selected ? { id: selected.id, name: selected.name, prompt: selected.prompt } : null);
+    };
+
+    useEffect(() => {
+        load(profileId ?? undefined);
+    }, []);
+
+    const handleNew = () => {
+        setDraft({ name: t('app.profiles.new_name', locale), prompt: defaultNotesPrompt(language) });
+    };
+
+    const handleSave = async () => {
+        if (!draft || !draft.name.trim() || !draft.prompt.trim()) return;
+        const id = await saveProfile({ ...draft, name: draft.name.trim() });
+        await load(id);
+        setSaved(true);
+        setTimeout(() => setSaved(false), 1500);
+    };
+
+    const handleDelete = async () => {
+        if (!draft?.id || profiles.length <= 1) return;
+        await deleteProfile(draft.id);
+        if (profileId === draft.id) setProfileId(null);
+        await load();
+    };
+
+    const preview = draft ? buildNotesMessages(resolveProfilePrompt(draft.prompt, language), SAMPLE_TRANSCRIPTION, undefined, language) : null;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            style={{ background: 'rgba(0,0,0,0.6)', backdropFilter: 'blur(4px)' }}
+            onClick={() => setProfilesOpen(false)}
+        >
+            <motion.div
+                initial={{ opacity: 0, scale: 0.97, y: 8 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.97, y: 8 }}
+                transition={{ duration: 0.2 }}
+                className="w-full max-w-2xl rounded-xl overflow-hidden max-h-[90vh] overflow-y-auto custom-scrollbar"
+                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)' }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-5 py-4 sticky top-0 z-10" style={{ borderBottom: '1px solid var(--border-subtle)', background: 'var(--bg-secondary)' }}>
+                    <h2 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+                        {t('app.profiles.title', locale)}
+                    </h2>
+                    <button onClick={() => setProfilesOpen(false)} className="p-1 rounded-md transition-colors" style={{ color: 'var(--text-muted)' }}>
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-5">
+                    {/* Profile list */}
+                    <div className="flex flex-wrap gap-2">
+                        {profiles.map((p) => (
+                            <button
+                                key={p.id}
+                                onClick={() => setDraft({ id: p.id, name: p.name, prompt: p.prompt })}
+                                className="py-1.5 px-3 rounded-lg text-xs font-medium transition-all"
+                                style={{
+                                    background: draft?.id === p.id ? 'var(--accent-subtle)' : 'var(--bg-primary)',
+                                    border: `1px solid ${draft?.id === p.id ? 'var(--accent)' : 'var(--border-default)'}`,
+                                    color: draft?.id === p.id ? 'var(--accent)' : 'var(--text-muted)',
+                                }}
+                            >
+                                {p.name}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleNew}
+                            className="inline-flex items-center gap-1 py-1.5 px-3 rounded-lg text-xs font-medium transition-all"
+                            style={{ background: 'var(--bg-primary)', border: '1px dashed var(--border-default)', color: 'var(--text-muted)' }}
+                        >
+                            <Plus size={12} />
+                            {t('app.profiles.new', locale)}
+                        </button>
+                    </div>
+
+                    {draft && (
+                        <>
+                            {/* Name */}
+                            <div>
+                                <label htmlFor="profile-name" className="text-xs font-medium mb-2 block" style={{ color: 'var(--text-secondary)' }}>
+                                    {t('app.profiles.name', locale)}
+                                </label>
+                                <input
+                                    id="profile-name"
+                                    name="profile-name"
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    className="w-full rounded-lg px-3 outline-none text-sm py-2.5"
+                                    style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                                />
+                            </div>
+
+                            {/* Prompt */}
+                            <div>
+                                <div className="text-xs font-medium mb-2 flex items-center justify-between" style={{ color: 'var(--text-secondary)' }}>
+                                    <label htmlFor="profile-prompt">{t('app.profiles.prompt', locale)}</label>
+                                    <button
+                                        onClick={() => setDraft({ ...draft, prompt: defaultNotesPrompt(language) })}
+                                        className="text-[10px] transition-colors"
+                                        style={{ color: 'var(--accent)' }}
+                                    >
+                                        {t('app.profiles.reset', locale)}
+                                    </button>
+                                </div>
+                                <textarea
+                                    id="profile-prompt"
+                                    name="profile-prompt"
+                                    value={draft.prompt}
+                                    onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                                    rows={12}
+                                    className="w-full rounded-lg px-3 py-2.5 outline-none text-xs font-mono leading-relaxed custom-scrollbar"
+                                    style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                                />
+                                <p className="text-[10px] mt-1" style={{ color: 'var(--text-muted)' }}>
+                                    {t('app.profiles.hint', locale)}
+                                </p>
+                            </div>
+
+                            {/* Preview: the messages sent for a sample transcript */}
+                            <div>
+                                <button
+                                    onClick={() => setShowPreview(!showPreview)}
+                                    className="inline-flex items-center gap-1.5 text-xs transition-colors"
+                                    style={{ color: 'var(--text-secondary)' }}
+                                >
+                                    {showPreview ? <EyeOff size={12} /> : <Eye size={12} />}
+                                    {t('app.profiles.preview', locale)}
+                                </button>
+                                {showPreview && preview && (
+                                    <pre className="mt-2 p-3 rounded-lg text-[11px] whitespace-pre-wrap max-h-64 overflow-y-auto custom-scrollbar" style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-subtle)', color: 'var(--text-muted)' }}>
+                                        {`${preview.system}\n\n---\n\n${preview.user}`}
+                                    </pre>
+                                )}
+                            </div>
+
+                            {/* Actions */}
+                            <div className="flex gap-2">
+                                {draft.id && profiles.length > 1 && (
+                                    <button
+                                        onClick={handleDelete}
+                                        className="inline-flex items-center gap-1.5 px-3 py-2.5 rounded-lg text-xs transition-colors"
+                                        style={{ border: '1px solid rgba(239,68,68,0.3)', color: '#f87171' }}
+                                    >
+                                        <Trash2 size={13} />
+                                        {t('app.profiles.delete', locale)}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!draft.name.trim() || !draft.prompt.trim()}
+                                    className="flex-1 py-2.5 rounded-lg text-sm font-medium text-white transition-colors flex items-center justify-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed"
+                                    style={{ background: saved ? '#10b981' : 'var(--accent)' }}
+                                >
+                                    {saved ? <><Check size={14} /> {t('app.config.saved', locale)}</> : t('app.config.save', locale)}
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
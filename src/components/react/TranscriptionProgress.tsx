@@ -1,7 +1,9 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Loader2, Shrink, AudioLines, Check, Upload } from 'lucide-react';
+import { Loader2, Shrink, AudioLines, Check, Upload, X } from 'lucide-react';
 import { useAppStore } from '../../lib/store';
+import { getProvider } from '../../lib/providers';
+import { t } from '../../lib/i18n';
 
 // NOTE: Logic moved to GlobalAudioProcessor. This component just renders state.
 type Stage = 'compressing' | 'uploading' | 'transcribing' | 'done' | 'error' | 'idle';
@@ -9,7 +11,8 @@ type Stage = 'compressing' | 'uploading' | 'transcribing' | 'done' | 'error' | '
 export default function TranscriptionProgress() {
     const {
         file, provider, locale,
-        processingState, processingProgress, compressionInfo
+        processingState, processingProgress, compressionInfo, uploadedBytes,
+        cancelProcessing
     } = useAppStore();
 
     // Map internal store processingState to UI stage (simplify "done" and "idle" as fallback)
@@ -61,7 +64,7 @@ export default function TranscriptionProgress() {
         { key: 'transcribing', label: locale === 'es' ? 'Transcribir' : 'Transcribe' },
     ];
 
-    const visibleSteps = provider === 'gemini'
+    const visibleSteps = getProvider(provider).capabilities.requiresUpload
         ? steps
         : [steps[0], steps[2]];
 
@@ -122,7 +125,12 @@ export default function TranscriptionProgress() {
                         transition={{ duration: 0.3, ease: 'easeOut' }}
                     />
                 </div>
-                <p className="text-xs mt-2 font-mono" style={{ color: 'var(--text-muted)' }}>{pct}%</p>
+                <p className="text-xs mt-2 font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {pct}%
+                    {stage === 'uploading' && uploadedBytes && (
+                        ` · ${(uploadedBytes.sent / (1024 * 1024)).toFixed(1)} / ${(uploadedBytes.total / (1024 * 1024)).toFixed(1)} MB`
+                    )}
+                </p>
             </div>
 
             {/* Compression result badge (Groq only) */}
@@ -155,6 +163,15 @@ export default function TranscriptionProgress() {
                 )}
             </div>
 
+            {/* Cancel */}
+            <button
+                onClick={cancelProcessing}
+                className="inline-flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md transition-colors"
+                style={{ color: 'var(--text-muted)', border: '1px solid var(--border-subtle)' }}
+            >
+                <X size={12} />
+                {t('app.processing.cancel', locale)}
+            </button>
         </div>
     );
 }
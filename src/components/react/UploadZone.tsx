@@ -1,8 +1,11 @@
 import React, { useCallback, useState, useRef, useEffect } from 'react';
-import { useAppStore } from '../../lib/store';
+import { useAppStore, SOURCE_LANGUAGES } from '../../lib/store';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileAudio, FileVideo, Mic, Loader2, AlertCircle, CheckCircle, Clock, Volume2, ArrowRight, Sparkles, Zap, BrainCircuit, Info, RefreshCw } from 'lucide-react';
+import { Upload, FileAudio, FileVideo, Mic, Loader2, AlertCircle, CheckCircle, Clock, Volume2, ArrowRight, Sparkles, Zap, BrainCircuit, Info, RefreshCw, Pencil, BookOpen } from 'lucide-react';
 import { t } from '../../lib/i18n';
+import { isPipelineConfigured } from '../../lib/providers';
+import { listProfiles, listCourses, type NoteProfile } from '../../lib/db';
+import { NOTES_LANGUAGES } from '../../lib/prompts';
 
 import AudioRecorder from './AudioRecorder';
 
@@ -14,12 +17,27 @@ const ACCEPTED = [
 const MAX_SIZE = 200 * 1024 * 1024; // 200MB
 
 export default function UploadZone() {
-    const { setFile, startProcessing, setError, apiKey, geminiKey, provider, setConfigOpen, locale, file, processingState } = useAppStore();
+    const { setFile, startProcessing, setError, keys, provider, organizeProvider, providerSettings, setConfigOpen, locale, file, processingState, sourceLanguage, setSourceLanguage, notesLanguage, setNotesLanguage, profileId, setProfileId, profilesOpen, setProfilesOpen, course, setCourse, glossaryOpen, setGlossaryOpen } = useAppStore();
     const [isDragging, setIsDragging] = useState(false);
     const [isRecording, setIsRecording] = useState(false);
     const [showHint, setShowHint] = useState(false);
+    const [profiles, setProfiles] = useState<NoteProfile[]>([]);
+    const [courses, setCourses] = useState<string[]>([]);
     const inputRef = useRef<HTMLInputElement>(null);
 
+    // Reload profiles after they're edited
+    useEffect(() => {
+        if (!profilesOpen) listProfiles().then(setProfiles);
+    }, [profilesOpen]);
+
+    // Courses with a glossary, suggested in the course field
+    useEffect(() => {
+        if (!glossaryOpen) listCourses().then(setCourses);
+    }, [glossaryOpen]);
+
+    // A deleted or never-chosen profile falls back to the first one
+    const selectedProfileId = profiles.find((p) => p.id === profileId)?.id ?? profiles[0]?.id;
+
     // Show hint if processing is active but stuck in this view
     useEffect(() => {
         let timer: NodeJS.Timeout;
@@ -60,12 +78,12 @@ export default function UploadZone() {
     }, [handleFile]);
 
     const handleStart = () => {
-        const activeKey = provider === 'gemini' ? geminiKey : apiKey;
-        if (!activeKey) {
+        if (!isPipelineConfigured(provider, organizeProvider, keys, providerSettings)) {
             setConfigOpen(true);
             setError(t('app.error.apikey', locale));
             return;
         }
+        if (selectedProfileId !== profileId) setProfileId(selectedProfileId ?? null);
         if (file) startProcessing(file);
     };
 
@@ -74,6 +92,10 @@ export default function UploadZone() {
         handleFile(f);
     };
 
+    const languageName = (code: string) => code === 'auto'
+        ? t('app.upload.language.auto', locale)
+        : new Intl.DisplayNames([locale], { type: 'language' }).of(code) ?? code;
+
     const formatSize = (b: number) => b < 1024 * 1024 ? `${(b / 1024).toFixed(0)} KB` : `${(b / (1024 * 1024)).toFixed(1)} MB`;
 
     if (isRecording) {
@@ -199,8 +221,102 @@ export default function UploadZone() {
                 <motion.div
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
-                    className="mt-6"
+                    className="mt-6 space-y-3"
                 >
+                    <div className="flex items-center justify-between gap-3">
+                        <label htmlFor="source-language" className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.upload.language', locale)}
+                        </label>
+                        <select
+                            id="source-language"
+                            name="source-language"
+                            value={sourceLanguage}
+                            onChange={(e) => setSourceLanguage(e.target.value as typeof sourceLanguage)}
+                            className="text-xs px-3 py-2 rounded-lg outline-none capitalize"
+                            style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                        >
+                            {SOURCE_LANGUAGES.map((code) => (
+                                <option key={code} value={code}>{languageName(code)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <label htmlFor="notes-language" className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.upload.notes_language', locale)}
+                        </label>
+                        <select
+                            id="notes-language"
+                            name="notes-language"
+                            value={notesLanguage}
+                            onChange={(e) => setNotesLanguage(e.target.value as typeof notesLanguage)}
+                            className="text-xs px-3 py-2 rounded-lg outline-none capitalize"
+                            style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                        >
+                            <option value="ui">{t('app.upload.notes_language.ui', locale)}</option>
+                            {NOTES_LANGUAGES.map((code) => (
+                                <option key={code} value={code}>{languageName(code)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <label htmlFor="notes-profile" className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.upload.profile', locale)}
+                        </label>
+                        <div className="flex items-center gap-1.5">
+                            <select
+                                id="notes-profile"
+                                name="notes-profile"
+                                value={selectedProfileId ?? ''}
+                                onChange={(e) => setProfileId(Number(e.target.value) || null)}
+                                className="text-xs px-3 py-2 rounded-lg outline-none"
+                                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                            >
+                                {profiles.map((p) => (
+                                    <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setProfilesOpen(true)}
+                                title={t('app.upload.profile.edit', locale)}
+                                className="p-2 rounded-lg transition-colors"
+                                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-muted)' }}
+                            >
+                                <Pencil size={12} />
+                            </button>
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <label htmlFor="course" className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                            {t('app.upload.course', locale)}
+                        </label>
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                id="course"
+                                name="course"
+                                type="text"
+                                list="course-options"
+                                value={course}
+                                onChange={(e) => setCourse(e.target.value)}
+                                placeholder={t('app.upload.course.none', locale)}
+                                className="text-xs px-3 py-2 rounded-lg outline-none w-40"
+                                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-primary)' }}
+                            />
+                            <datalist id="course-options">
+                                {courses.map((c) => (
+                                    <option key={c} value={c} />
+                                ))}
+                            </datalist>
+                            <button
+                                onClick={() => setGlossaryOpen(true)}
+                                disabled={!course.trim()}
+                                title={t('app.upload.course.glossary', locale)}
+                                className="p-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)', color: 'var(--text-muted)' }}
+                            >
+                                <BookOpen size={12} />
+                            </button>
+                        </div>
+                    </div>
                     <button
                         onClick={handleStart}
                         className="w-full flex items-center justify-center gap-2 py-3 rounded-lg text-sm font-medium text-white transition-colors"
@@ -0,0 +1,33 @@
+/**
+ * Helpers for threading the processor's AbortSignal through long-running work.
+ */
+
+export function abortError(): DOMException {
+    return new DOMException('Proceso cancelado', 'AbortError');
+}
+
+export function isAbortError(err: unknown): boolean {
+    return (err as { name?: string })?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) throw abortError();
+}
+
+/**
+ * setTimeout as a promise; rejects with an AbortError as soon as `signal` aborts.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
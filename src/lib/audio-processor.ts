@@ -1,19 +1,33 @@
 import { Mp3Encoder } from '@breezystack/lamejs';
+import { abortError, throwIfAborted } from './abort';
 
 const TARGET_SAMPLE_RATE = 16000;
 const TARGET_BITRATE = 64; // kbps — good enough for speech
 const MAX_DIRECT_SIZE = 25 * 1024 * 1024; // 25MB
 const CHUNK_SIZE = 20 * 1024 * 1024; // 20MB per chunk
 
-export interface CompressionResult {
-    file: File;
-    originalSize: number;
-    compressedSize: number;
-    ratio: number;
+// Silence-aware splitting
+const BYTES_PER_SECOND = (TARGET_BITRATE * 1000) / 8;
+const CHUNK_SIZE_MARGIN = 0.98; // Leave room for MP3 frame padding
+const SPLIT_SEARCH_SECONDS = 30; // Look for a pause within the last 30s before the size budget
+const ENERGY_WINDOW_SECONDS = 0.05; // 50ms RMS windows
+const PAUSE_WINDOWS = 6; // Average over ~300ms so we land in a real pause, not a plosive gap
+export const CHUNK_OVERLAP_SECONDS = 3; // Suggested overlap so words at a boundary are heard whole by one side
+
+export interface AudioRange {
+    start: number; // Seconds from the start of the original recording
+    end?: number;  // Unknown when the file is sent as-is (never decoded)
+}
+
+export interface ProcessOptions {
+    maxUploadSize?: number;  // Largest chunk the provider accepts (bytes)
+    overlapSeconds?: number; // Each chunk after the first also repeats this much of the previous one
+    signal?: AbortSignal;    // Stops decoding/encoding and terminates the encoder worker
 }
 
 export interface ProcessedAudio {
     chunks: File[];
+    ranges: AudioRange[]; // Time range of each chunk within the original recording (overlap included)
     originalSize: number;
     compressedSize: number;
     wasCompressed: boolean;
@@ -21,18 +35,21 @@ export interface ProcessedAudio {
 }
 
 /**
- * Full pipeline: Compress → Check size → Chunk if needed
+ * Full pipeline: Decode → Split at pauses if needed → Encode each part as a standalone MP3
  */
 export async function processAudioForUpload(
     file: File,
-    onProgress?: (stage: string, progress: number) => void
+    onProgress?: (stage: string, progress: number) => void,
+    options: ProcessOptions = {}
 ): Promise<ProcessedAudio> {
+    const { maxUploadSize = MAX_DIRECT_SIZE, overlapSeconds = 0, signal } = options;
     const originalSize = file.size;
 
     // If already small enough, skip everything
     if (originalSize <= MAX_DIRECT_SIZE) {
         return {
             chunks: [file],
+            ranges: [{ start: 0 }],
             originalSize,
             compressedSize: originalSize,
             wasCompressed: false,
@@ -40,42 +57,63 @@ export async function processAudioForUpload(
         };
     }
 
-    // Step 1: Compress
+    // Step 1: Decode to 16kHz mono PCM
     onProgress?.('compressing', 0);
-    const compressed = await compressAudio(file, (p) => onProgress?.('compressing', p));
+    const samples = await decodeToMono(file, (p) => onProgress?.('compressing', p));
+    throwIfAborted(signal);
 
-    // Step 2: Check if compression was enough
-    if (compressed.file.size <= MAX_DIRECT_SIZE) {
-        return {
-            chunks: [compressed.file],
-            originalSize,
-            compressedSize: compressed.compressedSize,
-            wasCompressed: true,
-            wasChunked: false,
-        };
-    }
+    // Step 2: Pick split points at low-energy moments so each part fits the upload limit
+    // The overlap is taken out of each chunk's budget so the padded chunk still fits
+    const chunkSize = Math.min(CHUNK_SIZE, maxUploadSize);
+    const estimatedSize = (samples.length / TARGET_SAMPLE_RATE) * BYTES_PER_SECOND;
+    const overlapSamples = Math.floor(Math.max(0, overlapSeconds) * TARGET_SAMPLE_RATE);
+    const maxSamples = estimatedSize <= maxUploadSize
+        ? samples.length
+        : Math.floor((chunkSize * CHUNK_SIZE_MARGIN / BYTES_PER_SECOND) * TARGET_SAMPLE_RATE) - overlapSamples;
+    const bounds = findSplitPoints(samples, TARGET_SAMPLE_RATE, maxSamples);
+
+    // Step 3: Encode each part separately (Async via Worker) so every chunk is a valid MP3
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const chunks: File[] = [];
+    const ranges: AudioRange[] = [];
+    const totalSamples = samples.length; // `samples` is handed over to the worker when there's a single chunk
+
+    for (let i = 0; i < bounds.length - 1; i++) {
+        const start = i === 0 ? 0 : Math.max(0, bounds[i] - overlapSamples);
+        const end = bounds[i + 1];
 
-    // Step 3: Still too big — chunk the compressed file
-    onProgress?.('chunking', 0);
-    const chunks = chunkFile(compressed.file);
-    onProgress?.('chunking', 1);
+        // The PCM is transferred (not cloned) to the worker: a single chunk hands over the whole
+        // recording, which isn't needed afterwards; split chunks get their own copy of their range
+        const pcm = start === 0 && end === totalSamples ? samples : samples.slice(start, end);
+        const mp3Data = await encodeMp3(pcm, TARGET_SAMPLE_RATE, TARGET_BITRATE, (p) => {
+            onProgress?.('compressing', 0.4 + ((bounds[i] + p * (end - bounds[i])) / totalSamples) * 0.6);
+        }, signal);
+
+        const name = bounds.length > 2
+            ? `${baseName}_part${i + 1}.mp3`
+            : `${baseName}_compressed.mp3`;
+        chunks.push(new File(mp3Data as unknown as BlobPart[], name, { type: 'audio/mpeg' }));
+        ranges.push({ start: start / TARGET_SAMPLE_RATE, end: end / TARGET_SAMPLE_RATE });
+    }
+    onProgress?.('compressing', 1);
 
     return {
         chunks,
+        ranges,
         originalSize,
-        compressedSize: compressed.compressedSize,
+        compressedSize: chunks.reduce((sum, c) => sum + c.size, 0),
         wasCompressed: true,
-        wasChunked: true,
+        wasChunked: chunks.length > 1,
     };
 }
 
 /**
- * Compress audio to 16kHz mono MP3 at 64kbps using Web Audio API + lamejs
+ * Decode any audio/video file to 16kHz mono PCM using the Web Audio API
  */
-async function compressAudio(
+async function decodeToMono(
     file: File,
     onProgress?: (progress: number) => void
-): Promise<CompressionResult> {
+): Promise<Int16Array> {
     const arrayBuffer = await file.arrayBuffer();
     onProgress?.(0.1);
 
@@ -96,20 +134,61 @@ async function compressAudio(
     const monoData = getMono(audioBuffer);
     onProgress?.(0.4);
 
-    // Encode to MP3 (Async via Worker)
-    const mp3Data = await encodeMp3(monoData, TARGET_SAMPLE_RATE, TARGET_BITRATE, onProgress);
+    return monoData;
+}
 
-    const mp3Blob = new Blob(mp3Data as unknown as BlobPart[], { type: 'audio/mpeg' });
-    const mp3File = new File([mp3Blob], file.name.replace(/\.[^.]+$/, '') + '_compressed.mp3', {
-        type: 'audio/mpeg',
-    });
+/**
+ * Sample indices delimiting chunks of at most `maxSamples`, each boundary
+ * placed at the quietest ~300ms stretch shortly before the limit.
+ * Returns [0, ...splits, samples.length].
+ */
+function findSplitPoints(samples: Int16Array, sampleRate: number, maxSamples: number): number[] {
+    const bounds = [0];
+    let start = 0;
 
-    return {
-        file: mp3File,
-        originalSize: file.size,
-        compressedSize: mp3File.size,
-        ratio: mp3File.size / file.size,
-    };
+    while (samples.length - start > maxSamples) {
+        const searchEnd = start + maxSamples;
+        const searchStart = Math.max(start + 1, searchEnd - SPLIT_SEARCH_SECONDS * sampleRate);
+        const split = findQuietestPoint(samples, searchStart, searchEnd, sampleRate);
+        bounds.push(split);
+        start = split;
+    }
+
+    bounds.push(samples.length);
+    return bounds;
+}
+
+function findQuietestPoint(samples: Int16Array, from: number, to: number, sampleRate: number): number {
+    const windowSize = Math.max(1, Math.floor(ENERGY_WINDOW_SECONDS * sampleRate));
+    const energies: number[] = [];
+
+    for (let w = from; w + windowSize <= to; w += windowSize) {
+        let sum = 0;
+        for (let i = w; i < w + windowSize; i++) sum += samples[i] * samples[i];
+        energies.push(sum / windowSize);
+    }
+    if (energies.length === 0) return to;
+
+    // Smooth over a few windows and pick the lowest point
+    let best = 0;
+    let bestEnergy = Infinity;
+    for (let i = 0; i < energies.length; i++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = Math.max(0, i - PAUSE_WINDOWS + 1); k <= i; k++) {
+            sum += energies[k];
+            count++;
+        }
+        const avg = sum / count;
+        if (avg < bestEnergy) {
+            bestEnergy = avg;
+            best = i;
+        }
+    }
+
+    // Split in the middle of the quiet stretch
+    const center = best - Math.floor((Math.min(best + 1, PAUSE_WINDOWS) - 1) / 2);
+    return from + center * windowSize + Math.floor(windowSize / 2);
 }
 
 /**
@@ -145,60 +224,48 @@ function encodeMp3(
     samples: Int16Array,
     sampleRate: number,
     bitrate: number, // Unused in worker (hardcoded to 64 for now)
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
 ): Promise<Uint8Array[]> {
 
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+
         // Use Vite's worker import syntax
         const worker = new Worker(new URL('./audio-encoder.worker.js', import.meta.url), { type: 'module' });
 
+        // Cancelling kills the worker mid-encode instead of letting it run to the end
+        const onAbort = () => {
+            worker.terminate();
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+
         worker.onmessage = (e) => {
             const { type, progress, mp3Data, error } = e.data;
 
             if (type === 'progress') {
-                // Map 0-1 progress to 0.4-1 range in our overall flow
-                onProgress?.(0.4 + progress * 0.6);
+                onProgress?.(progress);
             } else if (type === 'complete') {
-                worker.terminate();
+                finish();
                 resolve(mp3Data);
             } else if (type === 'error') {
-                worker.terminate();
+                finish();
                 reject(new Error(error));
             }
         };
 
         worker.onerror = (err) => {
-            worker.terminate();
+            finish();
             reject(err);
         };
 
-        // Send data
-        worker.postMessage({ pcmData: samples, sampleRate });
+        // Send data (transferred: `samples` is unusable here afterwards)
+        worker.postMessage({ pcmData: samples, sampleRate }, [samples.buffer]);
     });
 }
-
-/**
- * Split a file into chunks of ~20MB
- */
-function chunkFile(file: File): File[] {
-    if (file.size <= MAX_DIRECT_SIZE) return [file];
-
-    const chunks: File[] = [];
-    let offset = 0;
-    let index = 0;
-
-    while (offset < file.size) {
-        const end = Math.min(offset + CHUNK_SIZE, file.size);
-        const blob = file.slice(offset, end);
-        const chunkFile = new File(
-            [blob],
-            `${file.name.replace(/\.[^.]+$/, '')}_part${index + 1}.mp3`,
-            { type: file.type }
-        );
-        chunks.push(chunkFile);
-        offset = end;
-        index++;
-    }
-
-    return chunks;
-}
@@ -0,0 +1,50 @@
+import type { AIProvider, ProviderContext } from './providers';
+import { transcribeAudio, organizeNotes, listModels, validateEndpoint, type OpenAIEndpoint } from './groq';
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+/**
+ * Build the endpoint for a self-hosted OpenAI-compatible server
+ * (e.g. a local Whisper server + an Ollama / vLLM chat server).
+ */
+function customEndpoint(ctx: ProviderContext): OpenAIEndpoint {
+    const baseUrl = ctx.settings.baseUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) throw new Error('URL del endpoint no configurada');
+
+    return {
+        name: 'Custom',
+        baseUrl,
+        apiKey: ctx.apiKey || undefined,
+        transcriptionModel: ctx.settings.transcriptionModel?.trim() || DEFAULT_TRANSCRIPTION_MODEL,
+        chatModel: ctx.settings.chatModel?.trim() || '',
+    };
+}
+
+export const customProvider: AIProvider = {
+    id: 'custom',
+    label: 'Custom',
+    models: 'OpenAI-compatible',
+    key: {
+        storageKey: 'scn-custom-key',
+        prefix: '',
+        placeholder: 'sk-...',
+        optional: true,
+    },
+    defaults: {
+        transcriptionModel: DEFAULT_TRANSCRIPTION_MODEL,
+    },
+    capabilities: {
+        maxUploadSize: 25 * 1024 * 1024, // Same limit as OpenAI's Whisper endpoint
+        nativeLongAudio: false,
+        requiresUpload: false,
+    },
+    settingsFields: ['baseUrl', 'transcriptionModel', 'chatModel'],
+    requiredSettings: ['baseUrl', 'chatModel'],
+    transcribe: (chunks, ctx, options) => transcribeAudio(chunks, customEndpoint(ctx), options),
+    organize: (transcription, ctx, options) => organizeNotes(transcription, customEndpoint(ctx), options),
+    validateKey: async (ctx) => {
+        if (!ctx.settings.baseUrl?.trim()) return false;
+        return validateEndpoint(customEndpoint(ctx));
+    },
+    listModels: (ctx) => listModels(customEndpoint(ctx)),
+};
@@ -1,3 +1,8 @@
+import type { Provider } from './store';
+import { resolveProfilePrompt, DEFAULT_PROFILES, type NotesLanguage } from './prompts';
+import { mergeTerms, normalizeTerms } from './glossary';
+import type { SpeakerNames } from './speakers';
+import type { TimedSegment } from './transcript-merge';
 import Dexie, { type Table } from 'dexie';
 
 export interface Project {
@@ -6,6 +11,14 @@ export interface Project {
     createdAt: number;
     updatedAt: number;
     status: 'draft' | 'processing' | 'done';
+    language?: string;          // Source language chosen at upload ('auto' = detect)
+    detectedLanguage?: string;  // Language reported by the transcription provider
+    transcriptionProvider?: Provider; // Which provider produced the transcription
+    notesProvider?: Provider;         // ...and the organized notes (may differ after a failover)
+    profileId?: number;               // Note profile chosen at upload
+    notesLanguage?: NotesLanguage;    // Language the notes are written in
+    course?: string;                  // Course the recording belongs to (picks its glossary)
+    speakers?: SpeakerNames;          // Display names of the transcript's speaker IDs
 }
 
 export interface AudioSource {
@@ -16,6 +29,24 @@ export interface AudioSource {
     name: string;
 }
 
+/**
+ * Organized notes as returned by the organizer (validated against NOTES_SCHEMA in notes.ts).
+ * The markdown shown in the editor is rendered from this.
+ */
+export interface Notes {
+    title: string;
+    summary: string[];
+    concepts: { term: string; explanation: string }[];
+    definitions: { term: string; definition: string }[];
+    sections: NoteSection[];
+}
+
+export interface NoteSection {
+    time: string;    // Start of the section, MM:SS
+    heading: string;
+    body: string;    // Markdown
+}
+
 export interface ProcessingState {
     id?: number;
     projectId: number;
@@ -23,15 +54,64 @@ export interface ProcessingState {
     subStep: string; // 'compressing', 'uploading', 'analyzing'
     progress: number;
     transcription?: string;
-    organizedNotes?: string;
+    organizedNotes?: string; // Markdown rendered from `notes`
+    notes?: Notes;
     lastUpdated: number;
 }
 
+/**
+ * One transcript segment with its timing (seconds from the start of the recording)
+ * and, for Whisper transcriptions, confidence. Kept so features can work on precise
+ * timing instead of the flattened transcript text.
+ */
+export interface TranscriptSegment extends TimedSegment {
+    id?: number;
+    projectId: number;
+    index: number; // Position in the transcript
+}
+
+/**
+ * A finished unit of work (processed audio, a chunk's transcript, an organized part)
+ * saved so an interrupted job can pick up where it stopped.
+ */
+export interface Checkpoint {
+    id?: number;
+    projectId: number;
+    key: string;
+    value: any;
+    createdAt: number;
+}
+
+/**
+ * A named, user-editable prompt for organizing notes (e.g. "Math lecture with formulas").
+ */
+export interface NoteProfile {
+    id?: number;
+    name: string;
+    prompt: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Technical terms of a course, passed to the transcriber as vocabulary hints.
+ */
+export interface Glossary {
+    id?: number;
+    course: string;
+    terms: string[];
+    updatedAt: number;
+}
+
 export class CompendiumDB extends Dexie {
     projects!: Table<Project>;
     audioSource!: Table<AudioSource>;
     processingState!: Table<ProcessingState>;
     secrets!: Table<{ key: string; value: any }>;
+    checkpoints!: Table<Checkpoint>;
+    profiles!: Table<NoteProfile>;
+    glossaries!: Table<Glossary>;
+    segments!: Table<TranscriptSegment>;
 
     constructor() {
         super('CompendiumDB');
@@ -41,18 +121,40 @@ export class CompendiumDB extends Dexie {
             processingState: '++id, projectId', // Link to project
             secrets: 'key' // Key-Value store for secrets
         });
+        this.version(2).stores({
+            checkpoints: '++id, projectId, [projectId+key]'
+        });
+        this.version(3).stores({
+            profiles: '++id, name'
+        });
+        this.version(4).stores({
+            glossaries: '++id, &course'
+        });
+        this.version(5).stores({
+            segments: '++id, projectId, [projectId+index]'
+        });
     }
 }
 
 export const db = new CompendiumDB();
 
 // Helper to create a new project
-export async function createProject(title: string): Promise<number> {
+export async function createProject(
+    title: string,
+    language?: string,
+    profileId?: number,
+    notesLanguage?: NotesLanguage,
+    course?: string
+): Promise<number> {
     const id = await db.projects.add({
         title,
         createdAt: Date.now(),
         updatedAt: Date.now(),
-        status: 'draft'
+        status: 'draft',
+        language,
+        profileId,
+        notesLanguage,
+        course
     });
     return id as number;
 }
@@ -108,3 +210,99 @@ export async function updateProjectState(
     // Also touch the project to keep it fresh
     await db.projects.update(projectId, { updatedAt: Date.now() });
 }
+
+export interface CheckpointStore {
+    get: <T = any>(key: string) => Promise<T | undefined>;
+    set: (key: string, value: any) => Promise<void>;
+}
+
+// Helper to read/write checkpoints of one project; `scope` namespaces keys (e.g. per provider)
+export function projectCheckpoints(projectId: number, scope: string = ''): CheckpointStore {
+    const fullKey = (key: string) => (scope ? `${scope}:${key}` : key);
+    return {
+        get: async (key) => {
+            const entry = await db.checkpoints.where({ projectId, key: fullKey(key) }).first();
+            return entry?.value;
+        },
+        set: async (key, value) => {
+            await db.checkpoints.where({ projectId, key: fullKey(key) }).delete();
+            await db.checkpoints.add({ projectId, key: fullKey(key), value, createdAt: Date.now() });
+        },
+    };
+}
+
+// Helper to replace the transcript segments of a project
+export async function saveSegments(projectId: number, segments: TimedSegment[]) {
+    await db.transaction('rw', db.segments, async () => {
+        await db.segments.where({ projectId }).delete();
+        await db.segments.bulkAdd(segments.map((seg, index) => ({ ...seg, projectId, index })));
+    });
+}
+
+export async function getSegments(projectId: number): Promise<TranscriptSegment[]> {
+    return db.segments.where('[projectId+index]').between([projectId, Dexie.minKey], [projectId, Dexie.maxKey]).toArray();
+}
+
+// Helper to drop checkpoints once a project is finished (they can hold large audio blobs)
+export async function clearCheckpoints(projectId: number) {
+    await db.checkpoints.where({ projectId }).delete();
+}
+
+// Helper to drop checkpoints left by cancelled or failed jobs: only `projectId` can still resume
+export async function clearStaleCheckpoints(projectId: number) {
+    await db.checkpoints.where('projectId').notEqual(projectId).delete();
+}
+
+// Helper to list note profiles, seeding the defaults when there are none
+export async function listProfiles(): Promise<NoteProfile[]> {
+    if (await db.profiles.count() === 0) {
+        const now = Date.now();
+        await db.profiles.bulkAdd(DEFAULT_PROFILES.map((p) => ({ ...p, createdAt: now, updatedAt: now })));
+    }
+    return db.profiles.orderBy('id').toArray();
+}
+
+// Helper to create (no id) or update a note profile; returns its id
+export async function saveProfile(profile: Pick<NoteProfile, 'id' | 'name' | 'prompt'>): Promise<number> {
+    const now = Date.now();
+    if (profile.id) {
+        await db.profiles.update(profile.id, { name: profile.name, prompt: profile.prompt, updatedAt: now });
+        return profile.id;
+    }
+    return await db.profiles.add({ name: profile.name, prompt: profile.prompt, createdAt: now, updatedAt: now }) as number;
+}
+
+export async function deleteProfile(id: number) {
+    await db.profiles.delete(id);
+}
+
+// Helper to resolve the organize prompt for a project (the default for its notes language if
+// the profile was deleted or still holds the built-in prompt)
+export async function getProfilePrompt(profileId?: number, language?: NotesLanguage): Promise<string> {
+    const profile = profileId ? await db.profiles.get(profileId) : undefined;
+    return resolveProfilePrompt(profile?.prompt, language);
+}
+
+// Helper to list the courses that have a glossary, alphabetically
+export async function listCourses(): Promise<string[]> {
+    return (await db.glossaries.orderBy('course').keys()) as string[];
+}
+
+export async function getGlossary(course?: string): Promise<string[]> {
+    if (!course) return [];
+    return (await db.glossaries.where({ course }).first())?.terms ?? [];
+}
+
+// Helper to replace a course's glossary (no terms = delete it)
+export async function saveGlossary(course: string, terms: string[]) {
+    const clean = normalizeTerms(terms);
+    await db.transaction('rw', db.glossaries, async () => {
+        await db.glossaries.where({ course }).delete();
+        if (clean.length) await db.glossaries.add({ course, terms: clean, updatedAt: Date.now() });
+    });
+}
+
+// Helper to grow a course's glossary (e.g. with the key concepts of new notes)
+export async function addGlossaryTerms(course: string, terms: string[]) {
+    await saveGlossary(course, mergeTerms(await getGlossary(course), terms));
+}
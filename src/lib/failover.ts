@@ -0,0 +1,38 @@
+import type { Provider } from './store';
+import type { PipelineStage } from './providers';
+import { isAbortError, throwIfAborted } from './abort';
+
+/**
+ * Run one pipeline stage (transcription or organization) on the first provider
+ * that succeeds. Cancellation is never retried on another provider; any other
+ * failure (exhausted rate-limit retries, 5xx, a FAILED Gemini file) moves on to
+ * the next stage in `stages`.
+ */
+export async function withFailover<T>(
+    stages: PipelineStage[],
+    run: (stage: PipelineStage) => Promise<T>,
+    options: {
+        signal?: AbortSignal;
+        onFallback?: (from: PipelineStage, to: PipelineStage, err: unknown) => void;
+    } = {}
+): Promise<{ result: T; provider: Provider }> {
+    let lastError: unknown = new Error('No hay ningún proveedor configurado');
+
+    for (let i = 0; i < stages.length; i++) {
+        throwIfAborted(options.signal);
+        try {
+            return { result: await run(stages[i]), provider: stages[i].provider.id };
+        } catch (err) {
+            if (isAbortError(err) || options.signal?.aborted) throw err;
+            lastError = err;
+
+            const next = stages[i + 1];
+            if (next) {
+                console.warn(`[Failover] ${stages[i].provider.label} falló, reintentando con ${next.provider.label}`, err);
+                options.onFallback?.(stages[i], next, err);
+            }
+        }
+    }
+
+    throw lastError;
+}
@@ -1,14 +1,56 @@
+import type { AIProvider, OrganizeOptions, ProviderContext, StoredUpload, TranscribeOptions, TranscriptionResult, TranscriptionStage } from './providers';
+import { delay, isAbortError } from './abort';
+import { fetchWithRetry, type RetryHooks } from './retry';
+import { formatTimestamp, formatTranscript, mergeTranscriptParts, parseTimestampedText, type TimedSegment, type TranscribedPart } from './transcript-merge';
+import { assembleNotes, buildReduceInput, partLabel, reduceSystemPrompt, splitTranscription } from './notes-merge';
+import { NOTES_SCHEMA, parseNotes, streamPreview, type JsonSchema } from './notes';
+import { isEventStream, readEventStream } from './sse';
+import { glossaryInstruction } from './glossary';
+import type { Notes } from './db';
+import { buildNotesMessages, defaultNotesPrompt, type NotesLanguage } from './prompts';
+
 const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
 const GEMINI_UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta';
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+export interface GeminiEndpoint {
+    apiKey: string;
+    transcriptionModel: string;
+    chatModel: string;
+}
+
+function geminiEndpoint(ctx: ProviderContext): GeminiEndpoint {
+    return {
+        apiKey: ctx.apiKey,
+        transcriptionModel: ctx.settings.transcriptionModel || DEFAULT_MODEL,
+        chatModel: ctx.settings.chatModel || DEFAULT_MODEL,
+    };
+}
+
+// Our uploads are named with this prefix so leftovers can be told apart from the user's other files
+const UPLOAD_DISPLAY_PREFIX = 'compendium-notes/';
+
+interface GeminiFile {
+    name: string; // 'files/abc123', used to poll and delete it
+    uri: string;  // Referenced from generateContent
+}
+
+// Bytes per upload request; the resumable protocol wants multiples of 256 KiB
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+const MAX_UPLOAD_FAILURES = 5; // In a row, each followed by a status query and a resume
 
 /**
- * Upload a file to Gemini Files API and wait until it's active
+ * A resumable upload in progress, saved as a checkpoint so a reload continues it.
  */
-async function uploadToGemini(file: File, apiKey: string, onProgress?: (p: number) => void): Promise<string> {
-    onProgress?.(0.1);
+interface UploadSession {
+    url: string;  // X-Goog-Upload-URL
+    size: number; // Bytes of the file it was started for
+}
+
+type UploadHooks = RetryHooks & Pick<TranscribeOptions, 'checkpoints' | 'onUploadBytes'>;
 
-    // Step 1: Start resumable upload
-    const startRes = await fetch(`${GEMINI_UPLOAD_URL}/files?key=${apiKey}`, {
+async function startUpload(file: File, apiKey: string, hooks: UploadHooks): Promise<string> {
+    const startRes = await fetchWithRetry(`${GEMINI_UPLOAD_URL}/files?key=${apiKey}`, {
         method: 'POST',
         headers: {
             'X-Goog-Upload-Protocol': 'resumable',
@@ -18,9 +60,9 @@ async function uploadToGemini(file: File, apiKey: string, onProgress?: (p: numbe
             'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-            file: { displayName: file.name },
+            file: { displayName: `${UPLOAD_DISPLAY_PREFIX}${file.name}` },
         }),
-    });
+    }, { label: 'Gemini', signal: hooks.signal, onWait: hooks.onWait });
 
     if (!startRes.ok) {
         const err = await startRes.text();
@@ -29,174 +71,427 @@ async function uploadToGemini(file: File, apiKey: string, onProgress?: (p: numbe
 
     const uploadUrl = startRes.headers.get('X-Goog-Upload-URL');
     if (!uploadUrl) throw new Error('No se pudo obtener URL de upload');
+    return uploadUrl;
+}
 
-    onProgress?.(0.2);
-
-    // Step 2: Upload the file bytes
-    const uploadRes = await fetch(uploadUrl, {
+/**
+ * How far an upload session got: bytes the server has, or the file once it's finalized.
+ * null when the session is gone (expired or unknown), so the upload has to start over.
+ */
+async function queryUpload(url: string, hooks: UploadHooks): Promise<{ offset: number; file?: any } | null> {
+    const res = await fetchWithRetry(url, {
         method: 'POST',
-        headers: {
-            'X-Goog-Upload-Offset': '0',
-            'X-Goog-Upload-Command': 'upload, finalize',
-            'Content-Length': String(file.size),
-        },
-        body: file,
-    });
+        headers: { 'X-Goog-Upload-Command': 'query' },
+    }, { label: 'Gemini', signal: hooks.signal, onWait: hooks.onWait });
+    if (!res.ok) return null;
+
+    const status = res.headers.get('X-Goog-Upload-Status');
+    if (status === 'final') {
+        const data = await res.json().catch(() => ({}));
+        return data.file ? { offset: Number(data.file.sizeBytes) || 0, file: data.file } : null;
+    }
+    if (status !== 'active') return null;
+    return { offset: Number(res.headers.get('X-Goog-Upload-Size-Received')) || 0 };
+}
 
-    if (!uploadRes.ok) {
-        const err = await uploadRes.text();
-        throw new Error(`Error al subir archivo: ${err}`);
+/**
+ * Upload a file to Gemini Files API in chunks and wait until it's active.
+ * A failed chunk resumes from the last byte the server acknowledged; with `sessionKey`
+ * the session is checkpointed so a reload resumes it instead of uploading from scratch.
+ */
+async function uploadToGemini(
+    file: File,
+    apiKey: string,
+    onProgress?: (p: number) => void,
+    hooks: UploadHooks = {},
+    sessionKey?: string
+): Promise<GeminiFile> {
+    const retry = { label: 'Gemini', signal: hooks.signal, onWait: hooks.onWait };
+    const { checkpoints } = hooks;
+    const reportBytes = (sent: number) => {
+        hooks.onUploadBytes?.(sent, file.size);
+        onProgress?.(0.05 + (sent / file.size) * 0.4);
+    };
+    onProgress?.(0.05);
+
+    // Step 1: Resume the saved session if the server still has it, or start a new one
+    const saved = sessionKey ? await checkpoints?.get<UploadSession | null>(sessionKey) : undefined;
+    let resumed = saved?.size === file.size ? await queryUpload(saved.url, hooks) : null;
+    let uploadUrl: string;
+    if (saved && resumed) {
+        console.log(`[Gemini] Reanudando subida de ${file.name} desde ${(resumed.offset / 1024 / 1024).toFixed(1)}MB`);
+        uploadUrl = saved.url;
+    } else {
+        resumed = null;
+        uploadUrl = await startUpload(file, apiKey, hooks);
+        if (sessionKey) await checkpoints?.set(sessionKey, { url: uploadUrl, size: file.size } satisfies UploadSession);
     }
 
-    const uploadData = await uploadRes.json();
-    const fileUri = uploadData.file?.uri;
-    const fileName = uploadData.file?.name;
+    // Step 2: Upload the file bytes chunk by chunk
+    let offset = resumed?.offset ?? 0;
+    let uploadedFile = resumed?.file;
+    let failures = 0;
+    reportBytes(offset);
+
+    while (!uploadedFile) {
+        const end = Math.min(offset + UPLOAD_CHUNK_BYTES, file.size);
+        const isLast = end === file.size;
+        try {
+            // One attempt per request: a retry has to start from whatever the server acknowledged
+            const res = await fetchWithRetry(uploadUrl, {
+                method: 'POST',
+                headers: {
+                    'X-Goog-Upload-Offset': String(offset),
+                    'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+                },
+                body: file.slice(offset, end),
+            }, { ...retry, maxAttempts: 1, timeoutMs: 120000 });
+
+            if (!res.ok) {
+                const err = await res.text();
+                throw new Error(`Error al subir archivo: ${err}`);
+            }
+            if (isLast) {
+                uploadedFile = (await res.json()).file;
+                if (!uploadedFile) throw new Error('No se recibió URI del archivo');
+            }
+            offset = end;
+            failures = 0;
+            reportBytes(offset);
+        } catch (err) {
+            if (isAbortError(err) || ++failures > MAX_UPLOAD_FAILURES) throw err;
+
+            const waitSeconds = 2 ** failures;
+            console.warn(`[Gemini] Falló la subida en ${(offset / 1024 / 1024).toFixed(1)}MB, reanudando en ${waitSeconds}s`, err);
+            hooks.onWait?.(waitSeconds);
+            await delay(waitSeconds * 1000, hooks.signal);
+            hooks.onWait?.(0);
+
+            const status = await queryUpload(uploadUrl, hooks);
+            if (!status) throw err;
+            offset = status.offset;
+            uploadedFile = status.file;
+            reportBytes(offset);
+        }
+    }
 
-    if (!fileUri) throw new Error('No se recibió URI del archivo');
+    // The session is spent once the file exists
+    if (sessionKey) await checkpoints?.set(sessionKey, null);
 
-    onProgress?.(0.4);
+    const fileUri: string | undefined = uploadedFile.uri;
+    const fileName: string = uploadedFile.name;
+    if (!fileUri) throw new Error('No se recibió URI del archivo');
 
-    // Step 3: Poll until file state is ACTIVE
-    let attempts = 0;
-    while (attempts < 30) {
-        const statusRes = await fetch(`${GEMINI_API_URL}/${fileName}?key=${apiKey}`);
-        const statusData = await statusRes.json();
+    onProgress?.(0.45);
 
-        if (statusData.state === 'ACTIVE') {
-            onProgress?.(0.5);
-            return fileUri;
-        }
-        if (statusData.state === 'FAILED') {
-            throw new Error('El procesamiento del archivo falló en Gemini');
+    // Step 3: Poll until file state is ACTIVE (a file that never gets there is deleted right away)
+    try {
+        let attempts = 0;
+        while (attempts < 30) {
+            const statusRes = await fetchWithRetry(`${GEMINI_API_URL}/${fileName}?key=${apiKey}`, {}, retry);
+            const statusData = await statusRes.json();
+
+            if (statusData.state === 'ACTIVE') {
+                onProgress?.(0.5);
+                return { name: fileName, uri: fileUri };
+            }
+            if (statusData.state === 'FAILED') {
+                throw new Error('El procesamiento del archivo falló en Gemini');
+            }
+
+            await delay(2000, hooks.signal);
+            attempts++;
+            onProgress?.(0.45 + (attempts / 30) * 0.05);
         }
-
-        await new Promise(r => setTimeout(r, 2000));
-        attempts++;
-        onProgress?.(0.4 + (attempts / 30) * 0.1);
+    } catch (err) {
+        await deleteGeminiFile(fileName, apiKey);
+        throw err;
     }
 
+    await deleteGeminiFile(fileName, apiKey);
     throw new Error('Timeout esperando que Gemini procese el archivo');
 }
 
 /**
- * Transcribe audio using Gemini's multimodal capabilities
+ * Delete an uploaded file. Best effort: it expires on its own anyway, so failures are only logged.
+ * Runs without the job's abort signal so it still happens after a cancel.
  */
-export async function transcribeWithGemini(
-    file: File,
-    apiKey: string,
-    onProgress?: (progress: number) => void
-): Promise<string> {
-    if (!apiKey) throw new Error('Gemini API Key no configurada');
-
-    // Upload file
-    const fileUri = await uploadToGemini(file, apiKey, (p) => onProgress?.(p * 0.5));
+async function deleteGeminiFile(name: string, apiKey: string): Promise<boolean> {
+    try {
+        const res = await fetch(`${GEMINI_API_URL}/${name}?key=${apiKey}`, { method: 'DELETE' });
+        if (!res.ok && res.status !== 404) throw new Error(`HTTP ${res.status}`);
+        console.log(`[Gemini] Archivo ${name} eliminado`);
+        return true;
+    } catch (err) {
+        console.warn(`[Gemini] No se pudo eliminar ${name}:`, err);
+        return false;
+    }
+}
 
-    onProgress?.(0.5);
+/**
+ * Uploads of this app still in the user's Files storage (left behind by a closed tab or a failed delete).
+ */
+export async function listGeminiUploads(apiKey?: string): Promise<StoredUpload[]> {
+    if (!apiKey) throw new Error('Gemini API Key no configurada');
 
-    // Transcribe with Gemini
-    const response = await fetch(
-        `${GEMINI_API_URL}/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                contents: [{
-                    parts: [
-                        {
-                            fileData: {
-                                mimeType: file.type || 'audio/mpeg',
-                                fileUri,
-                            },
-                        },
-                        {
-                            text: `Transcribe this audio recording accurately in its original language. Include timestamps in [MM:SS] format for each section or paragraph of speech. Output only the transcription, no additional commentary.`,
-                        },
-                    ],
-                }],
-                generationConfig: {
-                    temperature: 0.1,
-                    maxOutputTokens: 8192,
-                },
-            }),
+    const uploads: StoredUpload[] = [];
+    let pageToken = '';
+    do {
+        const res = await fetchWithRetry(`${GEMINI_API_URL}/files?key=${apiKey}&pageSize=100${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`, {}, { label: 'Gemini' });
+        if (!res.ok) throw new Error(`Error al listar archivos de Gemini (${res.status})`);
+        const data = await res.json();
+        for (const file of data.files || []) {
+            if (!file.displayName?.startsWith(UPLOAD_DISPLAY_PREFIX)) continue;
+            uploads.push({
+                name: file.name,
+                displayName: file.displayName.slice(UPLOAD_DISPLAY_PREFIX.length),
+                sizeBytes: Number(file.sizeBytes) || 0, // int64 comes as a string
+            });
         }
-    );
+        pageToken = data.nextPageToken || '';
+    } while (pageToken);
+    return uploads;
+}
 
-    onProgress?.(0.85);
+/**
+ * Delete uploads found by listGeminiUploads. Returns how many were deleted.
+ */
+export async function deleteGeminiUploads(uploads: StoredUpload[], apiKey?: string): Promise<number> {
+    if (!apiKey) throw new Error('Gemini API Key no configurada');
 
-    if (!response.ok) {
-        const err = await response.json().catch(() => ({}));
-        throw new Error(err?.error?.message || `Error de Gemini (${response.status})`);
+    let deleted = 0;
+    for (const upload of uploads) {
+        if (await deleteGeminiFile(upload.name, apiKey)) deleted++;
     }
+    return deleted;
+}
 
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+// Long recordings are transcribed in windows so each answer stays well under the output limit
+const TRANSCRIPTION_WINDOW_SECONDS = 20 * 60; // ~20 min of speech ≈ 5k output tokens
+const WINDOW_OVERLAP_SECONDS = 5; // Re-transcribed at each window edge, then de-duplicated
+const MAX_CONTINUATIONS = 5;
 
-    if (!text) throw new Error('Gemini no generó transcripción');
+/**
+ * Duration of a file the processor didn't decode (sent as-is)
+ */
+function getAudioDuration(file: File): Promise<number | undefined> {
+    return new Promise((resolve) => {
+        const url = URL.createObjectURL(file);
+        const audio = new Audio();
+        const done = (value?: number) => {
+            URL.revokeObjectURL(url);
+            resolve(value);
+        };
+        audio.preload = 'metadata';
+        audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? audio.duration : undefined);
+        audio.onerror = () => done(undefined);
+        audio.src = url;
+    });
+}
 
-    onProgress?.(1);
-    return text;
+function formatClock(seconds: number): string {
+    return formatTimestamp(seconds).slice(1, -1);
 }
 
 /**
- * Organize notes using Gemini (text-only, no file needed)
+ * Run a generateContent request, asking the model to keep going
+ * whenever it stops because it hit `maxOutputTokens`.
  */
-export async function organizeNotesWithGemini(
-    transcription: string,
-    apiKey: string,
-    onStep?: (step: number) => void
-): Promise<string> {
-    if (!apiKey) throw new Error('Gemini API Key no configurada');
-    if (!transcription) throw new Error('No hay transcripción para organizar');
-
-    onStep?.(1);
-
-    const prompt = `Eres un asistente experto en crear apuntes académicos estructurados. Organiza la siguiente transcripción de audio en apuntes profesionales y claros.
+async function generateWithContinuation(parts: any[], apiKey: string, model: string, hooks: RetryHooks = {}): Promise<string> {
+    const contents: any[] = [{ role: 'user', parts }];
+    let output = '';
+
+    for (let turn = 0; turn <= MAX_CONTINUATIONS; turn++) {
+        const response = await fetchWithRetry(
+            `${GEMINI_API_URL}/models/${model}:generateContent?key=${apiKey}`,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    contents,
+                    generationConfig: {
+                        temperature: 0.1,
+                        maxOutputTokens: 8192,
+                    },
+                }),
+            },
+            { label: 'Gemini', signal: hooks.signal, onWait: hooks.onWait }
+        );
+
+        if (!response.ok) {
+            const err = await response.json().catch(() => ({}));
+            throw new Error(err?.error?.message || `Error de Gemini (${response.status})`);
+        }
 
-FORMATO DE SALIDA (Markdown):
+        const data = await response.json();
+        const candidate = data.candidates?.[0];
+        const text = (candidate?.content?.parts || []).map((p: any) => p.text || '').join('');
+        output += text;
 
-## Título
-[Título breve y descriptivo del tema principal]
+        if (candidate?.finishReason !== 'MAX_TOKENS') break;
 
-## Resumen
-- [Punto 1: máximo 2 líneas]
-- [Punto 2: máximo 2 líneas]
-- [Punto 3: máximo 2 líneas]
-(3-5 bullets)
+        console.log('[Gemini] Límite de tokens alcanzado, continuando transcripción...');
+        contents.push(
+            { role: 'model', parts: [{ text }] },
+            { role: 'user', parts: [{ text: 'Continue the transcription exactly where you stopped. Do not repeat anything already written and keep the same format.' }] },
+        );
+    }
 
-## Conceptos Clave
-**Término 1**: Breve explicación
-**Término 2**: Breve explicación
+    return output;
+}
 
-## Definiciones
-> **[Concepto]**: [Definición textual del audio]
+// Speaker turns: a new timestamped line at every change of voice, tagged [S1], [S2]...
+const SPEAKER_INSTRUCTION = 'If more than one person speaks, start a new timestamped line whenever the speaker changes and put a speaker tag right after the timestamp: [MM:SS] [S1] text. Number speakers in order of appearance and keep each voice on the same number.';
 
-## Contenido
+const SPEAKER_CONTEXT_LINES = 6;
+const SPEAKER_CONTEXT_CHARS = 200; // Per line
 
-### [00:00] Introducción
-[Transcripción de esta sección organizada y limpia]
+/**
+ * Each window is a separate request, so the model would number speakers from S1 again.
+ * Tell it which IDs are taken and how the previous window ended so voices keep their tag.
+ */
+function speakerContinuityInstruction(previous: TimedSegment[]): string {
+    const tagged = previous.filter((seg) => seg.speaker);
+    if (!tagged.length) return '';
+
+    const ids = [...new Set(tagged.map((seg) => seg.speaker!))];
+    const lastLines = tagged
+        .slice(-SPEAKER_CONTEXT_LINES)
+        .map((seg) => `[${seg.speaker}] ${seg.text.slice(0, SPEAKER_CONTEXT_CHARS)}`)
+        .join('\n');
+    const next = Math.max(...ids.map((id) => Number(id.slice(1)))) + 1;
+    return `Earlier parts of this recording were already transcribed with speakers ${ids.join(', ')}. They ended like this:\n${lastLines}\nReuse the same tag for each of these voices and number new speakers from S${next}.`;
+}
 
-### [MM:SS] [Título de sección]
-[Transcripción de esta sección organizada y limpia]
+/**
+ * Transcribe audio using Gemini's multimodal capabilities.
+ * Every chunk is uploaded and transcribed in time windows; timestamps are
+ * shifted by each chunk's start (`ranges`) and the pieces stitched into one transcript.
+ */
+export async function transcribeWithGemini(
+    chunks: File[],
+    endpoint: GeminiEndpoint,
+    options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
+    const { apiKey } = endpoint;
+    if (!apiKey) throw new Error('Gemini API Key no configurada');
+    if (!chunks.length) throw new Error('No hay archivos para transcribir');
+
+    const { onProgress, language, ranges = [], checkpoints } = options;
+
+    const languageInstruction = language
+        ? `The speech is in ${new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language}; transcribe it in that language.`
+        : 'Transcribe it in its original language.';
+    const vocabularyInstruction = glossaryInstruction(options.glossary ?? []);
+
+    const parts: TranscribedPart[] = [];
+    const total = chunks.length;
+    let transcribed: TimedSegment[] = []; // Everything so far, for speaker continuity across windows and chunks
+
+    for (let i = 0; i < total; i++) {
+        const file = chunks[i];
+        const offset = ranges[i]?.start ?? 0;
+        const report = (stage: TranscriptionStage, p: number) => onProgress?.(stage, (i + p) / total);
+
+        // Upload file (only once a window actually needs it; resumed chunks may be fully saved)
+        let uploaded: GeminiFile | undefined;
+
+        const rangeEnd = ranges[i]?.end;
+        const duration = rangeEnd !== undefined ? rangeEnd - offset : await getAudioDuration(file);
+        const windows = duration && duration > TRANSCRIPTION_WINDOW_SECONDS
+            ? Math.ceil(duration / TRANSCRIPTION_WINDOW_SECONDS)
+            : 1;
+
+        // The recording is deleted from the user's Files storage as soon as this chunk is done (or fails / is cancelled)
+        try {
+            for (let w = 0; w < windows; w++) {
+                const from = Math.max(0, w * TRANSCRIPTION_WINDOW_SECONDS - (w > 0 ? WINDOW_OVERLAP_SECONDS : 0));
+                const to = w === windows - 1 ? duration : (w + 1) * TRANSCRIPTION_WINDOW_SECONDS;
+                const windowInstruction = windows > 1
+                    ? `Only transcribe the part of the recording from ${formatClock(from)} to ${formatClock(to!)}. Timestamps must be measured from the start of the file.`
+                    : '';
+
+                let text = await checkpoints?.get<string>(`transcript:${i}:${w}`);
+                if (text === undefined) {
+                    if (!uploaded) {
+                        uploaded = await uploadToGemini(file, apiKey, (p) => report('uploading', p), options, `upload:${i}`);
+                        report('transcribing', 0.5);
+                    }
+
+                    const speakerContext = speakerContinuityInstruction(transcribed);
+                    console.log(`[Gemini] Transcribiendo ${file.name}${windows > 1 ? ` (${w + 1}/${windows})` : ''}`);
+                    text = await generateWithContinuation([
+                        {
+                            fileData: {
+                                mimeType: file.type || 'audio/mpeg',
+                                fileUri: uploaded.uri,
+                            },
+                        },
+                        {
+                            text: `Transcribe this audio recording accurately. ${languageInstruction} ${vocabularyInstruction} ${windowInstruction} Include timestamps in [MM:SS] format for each section or paragraph of speech. ${SPEAKER_INSTRUCTION} ${speakerContext} Output only the transcription, no additional commentary.`,
+                        },
+                    ], apiKey, endpoint.transcriptionModel, options);
+                    await checkpoints?.set(`transcript:${i}:${w}`, text);
+                }
+
+                const segments = parseTimestampedText(text, offset, to !== undefined ? offset + to : undefined);
+                parts.push({
+                    range: { start: offset + from, end: to !== undefined ? offset + to : undefined },
+                    segments,
+                });
+                transcribed = transcribed.concat(segments);
+
+                report('transcribing', 0.5 + ((w + 1) / windows) * 0.5);
+            }
+        } finally {
+            if (uploaded) await deleteGeminiFile(uploaded.name, apiKey);
+        }
+    }
 
-INSTRUCCIONES IMPORTANTES:
-- Mantén el lenguaje académico pero claro
-- Resalta términos técnicos con **bold**
-- Los timestamps deben estar en formato [MM:SS]
-- Divide en secciones lógicas cada 3-5 minutos aproximadamente
-- Corrige errores gramaticales
-- Elimina muletillas y repeticiones innecesarias
-- Si no hay definiciones claras, omite la sección de Definiciones
+    const merged = mergeTranscriptParts(parts);
+    if (!merged.length) throw new Error('Gemini no generó transcripción');
 
-AUDIO TRANSCRITO:
+    onProgress?.('transcribing', 1);
+    return { text: formatTranscript(merged), segments: merged };
+}
 
-${transcription}
+// 1M-token context fits any lecture, but the notes for it wouldn't fit in one answer
+const MAX_CHARS_PER_PART = 100000; // ~25k tokens of transcript → notes well under maxOutputTokens
 
-Organiza esta transcripción en apuntes estructurados.`;
+function buildNotesPrompt(systemPrompt: string, transcriptionPart: string, partLabel?: string, language?: NotesLanguage): string {
+    const { system, user } = buildNotesMessages(systemPrompt, transcriptionPart, partLabel, language);
+    return `${system}\n\n${user}`;
+}
 
-    onStep?.(2);
+/**
+ * Gemini's responseSchema is an OpenAPI subset with upper-case type names.
+ * Without `propertyOrdering` Gemini writes keys alphabetically; keep the schema's order
+ * so the streamed reply starts with the title and summary.
+ */
+function geminiSchema(schema: JsonSchema): object {
+    return {
+        ...schema,
+        type: schema.type.toUpperCase(),
+        ...(schema.properties && {
+            properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, geminiSchema(v)])),
+            propertyOrdering: Object.keys(schema.properties),
+        }),
+        ...(schema.items && { items: geminiSchema(schema.items) }),
+    };
+}
 
-    const response = await fetch(
-        `${GEMINI_API_URL}/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+/**
+ * Single text-only call constrained to the notes schema, streamed (SSE) so `onText` sees the reply grow
+ */
+async function generateNotes(
+    prompt: string,
+    apiKey: string,
+    model: string,
+    hooks: RetryHooks = {},
+    onText?: (textSoFar: string) => void
+): Promise<Notes> {
+    const response = await fetchWithRetry(
+        `${GEMINI_API_URL}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
         {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -205,30 +500,71 @@ Organiza esta transcripción en apuntes estructurados.`;
                 generationConfig: {
                     temperature: 0.3,
                     maxOutputTokens: 8192,
+                    responseMimeType: 'application/json',
+                    responseSchema: geminiSchema(NOTES_SCHEMA),
                 },
             }),
-        }
+        },
+        { label: 'Gemini', signal: hooks.signal, onWait: hooks.onWait }
     );
 
-    onStep?.(3);
-
     if (!response.ok) {
         const err = await response.json().catch(() => ({}));
-        if (response.status === 429) {
-            await new Promise(r => setTimeout(r, 5000));
-            return organizeNotesWithGemini(transcription, apiKey, onStep);
-        }
         throw new Error(err?.error?.message || `Error de Gemini (${response.status})`);
     }
 
-    const data = await response.json();
-    onStep?.(4);
+    let content = '';
+    if (isEventStream(response)) {
+        await readEventStream(response, (data) => {
+            const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+            if (!text) return;
+            content += text;
+            onText?.(content);
+        }, hooks.signal);
+    } else {
+        const data = await response.json();
+        content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+    }
 
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
     if (!content) throw new Error('Gemini no generó contenido');
+    return parseNotes(content);
+}
+
+/**
+ * Organize notes using Gemini (text-only, no file needed).
+ * Long transcripts are organized per part, then a reduce pass writes one header for the whole class.
+ */
+export async function organizeNotesWithGemini(
+    transcription: string,
+    endpoint: GeminiEndpoint,
+    options: OrganizeOptions = {}
+): Promise<Notes> {
+    const { apiKey, chatModel } = endpoint;
+    if (!apiKey) throw new Error('Gemini API Key no configurada');
+    if (!transcription) throw new Error('No hay transcripción para organizar');
+
+    const { onPartial, checkpoints, language } = options;
+    const prompt = options.prompt || defaultNotesPrompt(language);
+
+    const parts = splitTranscription(transcription, MAX_CHARS_PER_PART);
+
+    if (parts.length === 1) {
+        return generateNotes(buildNotesPrompt(prompt, parts[0], undefined, language), apiKey, chatModel, options, streamPreview(onPartial));
+    }
+
+    const partResults: Notes[] = [];
+    for (let i = 0; i < parts.length; i++) {
+        let result = await checkpoints?.get<Notes>(`notes:${i}`);
+        if (!result) {
+            result = await generateNotes(buildNotesPrompt(prompt, parts[i], partLabel(i, parts.length, language), language), apiKey, chatModel, options, streamPreview(onPartial, partResults));
+            await checkpoints?.set(`notes:${i}`, result);
+        }
+        partResults.push(result);
+    }
 
-    onStep?.(5);
-    return content;
+    const reduced = await generateNotes(`${reduceSystemPrompt(language)}\n\n${buildReduceInput(partResults, language)}`, apiKey, chatModel, options, streamPreview(onPartial, partResults));
+
+    return assembleNotes(reduced, partResults);
 }
 // ... existing code ...
 
@@ -241,3 +577,44 @@ export async function validateGeminiKey(apiKey: string): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * Models that support generateContent (ids without the "models/" prefix)
+ */
+export async function listGeminiModels(apiKey: string): Promise<string[]> {
+    const response = await fetch(`${GEMINI_API_URL}/models?key=${apiKey}&pageSize=1000`);
+    if (!response.ok) throw new Error(`Error de Gemini (${response.status})`);
+
+    const data = await response.json();
+    return (data.models || [])
+        .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+        .map((m: any) => String(m.name).replace(/^models\//, ''));
+}
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    models: 'Flash 2.0',
+    key: {
+        storageKey: 'scn-gemini-key',
+        prefix: 'AI',
+        placeholder: 'AIza...',
+        url: 'https://aistudio.google.com/apikey',
+    },
+    defaults: {
+        transcriptionModel: DEFAULT_MODEL,
+        chatModel: DEFAULT_MODEL,
+    },
+    settingsFields: ['transcriptionModel', 'chatModel'],
+    capabilities: {
+        maxUploadSize: 2 * 1024 * 1024 * 1024, // Files API limit
+        nativeLongAudio: true,
+        requiresUpload: true,
+    },
+    transcribe: (chunks, ctx, options) => transcribeWithGemini(chunks, geminiEndpoint(ctx), options),
+    organize: (transcription, ctx, options) => organizeNotesWithGemini(transcription, geminiEndpoint(ctx), options),
+    validateKey: (ctx) => validateGeminiKey(ctx.apiKey),
+    listUploads: (ctx) => listGeminiUploads(ctx.apiKey),
+    deleteUploads: (ctx, uploads) => deleteGeminiUploads(uploads, ctx.apiKey),
+    listModels: (ctx) => listGeminiModels(ctx.apiKey),
+};
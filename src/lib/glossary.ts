@@ -0,0 +1,64 @@
+import type { Notes } from './db';
+import { estimateTokens } from './token-budget';
+
+/**
+ * Per-course glossary: technical terms the transcriber should spell correctly.
+ * Sent to Whisper as its `prompt` and to Gemini as context; grown from each class's key concepts.
+ */
+
+// Whisper only reads the last 224 tokens of the prompt, and non-English text tokenizes
+// denser than our 4 chars/token estimate, so stay well below that
+const WHISPER_PROMPT_TOKENS = 150;
+
+const termKey = (term: string) => term.trim().toLowerCase();
+
+/**
+ * Clean up user/model-provided terms: trimmed, markdown emphasis removed, no duplicates (case-insensitive).
+ */
+export function normalizeTerms(terms: string[]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const raw of terms) {
+        const term = raw.replace(/[*_`]/g, '').trim();
+        if (!term || term.length > 80 || seen.has(termKey(term))) continue;
+        seen.add(termKey(term));
+        result.push(term);
+    }
+    return result;
+}
+
+/**
+ * New terms appended after the existing ones, which keep their order.
+ */
+export function mergeTerms(existing: string[], added: string[]): string[] {
+    return normalizeTerms([...existing, ...added]);
+}
+
+/**
+ * Key concepts of organized notes, as glossary terms.
+ */
+export function termsFromNotes(notes: Notes): string[] {
+    return normalizeTerms(notes.concepts.map((c) => c.term));
+}
+
+/**
+ * Whisper `prompt`: a comma-separated list of terms, cut to fit its context.
+ * Earlier terms (the ones typed by hand) win when the glossary is too long.
+ */
+export function whisperPrompt(terms: string[]): string | undefined {
+    let prompt = '';
+    for (const term of terms) {
+        const next = prompt ? `${prompt}, ${term}` : term;
+        if (estimateTokens(next) > WHISPER_PROMPT_TOKENS) break;
+        prompt = next;
+    }
+    return prompt ? `${prompt}.` : undefined;
+}
+
+/**
+ * Sentence added to the Gemini transcription prompt.
+ */
+export function glossaryInstruction(terms: string[]): string {
+    if (!terms.length) return '';
+    return `The recording may mention these terms; spell them exactly like this when they appear: ${terms.join(', ')}.`;
+}
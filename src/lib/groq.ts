@@ -1,64 +1,130 @@
+import type { AIProvider, OrganizeOptions, ProviderContext, TranscribeOptions, TranscriptionResult } from './providers';
+import { throwIfAborted } from './abort';
+import { createTokenBudget, estimateTokens, type TokenBudget } from './token-budget';
+import { fetchWithRetry, isTimeoutError, type RetryHooks } from './retry';
+import { formatTranscript, mergeTranscriptParts, type TimedSegment } from './transcript-merge';
+import { assembleNotes, buildReduceInput, partLabel, reduceSystemPrompt, splitTranscription } from './notes-merge';
+import { parseNotes, streamPreview } from './notes';
+import { isEventStream, readEventStream } from './sse';
+import { whisperPrompt } from './glossary';
+import { speakerIdMapper } from './speakers';
+import { assessSegments } from './transcript-quality';
+import type { Notes } from './db';
+import { buildNotesMessages, defaultNotesPrompt } from './prompts';
+
 const GROQ_API_URL = 'https://api.groq.com/openai/v1';
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-large-v3-turbo';
+const DEFAULT_CHAT_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
+
+/**
+ * Any server speaking the OpenAI `/audio/transcriptions` + `/chat/completions` API.
+ * Groq is one of them; self-hosted Whisper / local LLM servers are others.
+ */
+export interface OpenAIEndpoint {
+    name: string; // Used in logs and error messages
+    baseUrl: string;
+    apiKey?: string;
+    transcriptionModel: string;
+    chatModel: string;
+}
+
+function groqEndpoint(ctx: ProviderContext): OpenAIEndpoint {
+    if (!ctx.apiKey) throw new Error('API Key no configurada');
+    return {
+        name: 'Groq',
+        baseUrl: GROQ_API_URL,
+        apiKey: ctx.apiKey,
+        transcriptionModel: ctx.settings.transcriptionModel?.trim() || DEFAULT_TRANSCRIPTION_MODEL,
+        chatModel: ctx.settings.chatModel?.trim() || DEFAULT_CHAT_MODEL,
+    };
+}
+
+function authHeaders(endpoint: OpenAIEndpoint): Record<string, string> {
+    return endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {};
+}
+
+// Whisper's verbose_json reports the language by name ("spanish"/"Spanish")
+const LANGUAGE_CODES: Record<string, string> = {
+    spanish: 'es', english: 'en', portuguese: 'pt', french: 'fr', german: 'de', italian: 'it',
+};
+
+function normalizeLanguage(language?: string): string | undefined {
+    if (!language) return undefined;
+    const lower = language.toLowerCase();
+    return LANGUAGE_CODES[lower] || lower;
+}
+
+interface ChunkTranscription {
+    segments: TimedSegment[]; // Absolute times; empty when the server returned plain text only
+    text: string;
+    language?: string;
+}
 
 /**
- * Transcribe a single audio file (must be ≤ 25MB)
+ * Transcribe a single audio file (must be ≤ 25MB).
+ * `offset` shifts segment timestamps so chunks keep the lecture's real time.
  */
 async function transcribeSingleFile(
     file: File,
-    apiKey: string,
-): Promise<string> {
-    console.log(`[Groq] Iniciando transcripción de ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
+    endpoint: OpenAIEndpoint,
+    language?: string,
+    offset: number = 0,
+    hooks: RetryHooks = {},
+    prompt?: string,
+): Promise<ChunkTranscription> {
+    console.log(`[${endpoint.name}] Iniciando transcripción de ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
     const formData = new FormData();
     formData.append('file', file);
-    formData.append('model', 'whisper-large-v3-turbo');
+    formData.append('model', endpoint.transcriptionModel);
     formData.append('response_format', 'verbose_json');
-    formData.append('language', 'es');
+    if (language) formData.append('language', language); // Omitted = Whisper auto-detects
+    if (prompt) formData.append('prompt', prompt); // Vocabulary hints from the course glossary
     formData.append('timestamp_granularities[]', 'segment');
 
     try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minutes timeout per file
-
-        const response = await fetch(`${GROQ_API_URL}/audio/transcriptions`, {
+        const response = await fetchWithRetry(`${endpoint.baseUrl}/audio/transcriptions`, {
             method: 'POST',
-            headers: { 'Authorization': `Bearer ${apiKey}` },
+            headers: authHeaders(endpoint),
             body: formData,
-            signal: controller.signal,
+        }, {
+            label: endpoint.name,
+            timeoutMs: 120000, // 2 minutes timeout per file
+            signal: hooks.signal,
+            onWait: hooks.onWait,
         });
-        clearTimeout(timeoutId);
 
         if (!response.ok) {
             const errorData = await response.json().catch(() => ({}));
-            console.error('[Groq] Error API:', response.status, errorData);
+            console.error(`[${endpoint.name}] Error API:`, response.status, errorData);
             if (response.status === 401) {
-                throw new Error('API Key inválida. Verifica tu key de Groq.');
+                throw new Error(`API Key inválida. Verifica tu key de ${endpoint.name}.`);
             }
             if (response.status === 413) {
-                throw new Error('Archivo demasiado grande para Groq (límite 25MB).');
+                throw new Error(`Archivo demasiado grande para ${endpoint.name} (límite 25MB).`);
             }
             if (response.status === 429) {
-                throw new Error('Límite de Groq alcanzado. Espera un momento.');
+                throw new Error(`Límite de ${endpoint.name} alcanzado. Espera un momento.`);
             }
             throw new Error(errorData?.error?.message || `Error del servidor (${response.status})`);
         }
 
         const data = await response.json();
-        console.log('[Groq] Transcripción completada');
-
-        if (data.segments && data.segments.length > 0) {
-            return data.segments
-                .map((seg: any) => {
-                    const mins = Math.floor(seg.start / 60);
-                    const secs = Math.floor(seg.start % 60);
-                    const timestamp = `[${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}]`;
-                    return `${timestamp} ${seg.text.trim()}`;
-                })
-                .join('\n');
-        }
-
-        return data.text || '';
+        console.log(`[${endpoint.name}] Transcripción completada`);
+
+        const segments: TimedSegment[] = (data.segments || []).map((seg: any) => ({
+            start: offset + seg.start,
+            end: offset + seg.end,
+            text: seg.text.trim(),
+            // Some self-hosted servers (e.g. WhisperX) label voices; Whisper itself doesn't
+            ...(seg.speaker != null ? { speaker: String(seg.speaker) } : {}),
+            ...(typeof seg.avg_logprob === 'number' ? { avgLogprob: seg.avg_logprob } : {}),
+            ...(typeof seg.no_speech_prob === 'number' ? { noSpeechProb: seg.no_speech_prob } : {}),
+            ...(typeof seg.compression_ratio === 'number' ? { compressionRatio: seg.compression_ratio } : {}),
+        }));
+
+        return { segments, text: data.text || '', language: normalizeLanguage(data.language) };
     } catch (err: any) {
-        if (err.name === 'AbortError') {
+        if (isTimeoutError(err)) {
             throw new Error('La transcripción tardó demasiado (timeout). Intenta con un archivo más corto o comprimido.');
         }
         throw err;
@@ -66,208 +132,230 @@ async function transcribeSingleFile(
 }
 
 /**
- * Transcribe one or multiple chunks sequentially
+ * Transcribe one or multiple chunks sequentially.
+ * Overlapping chunks (see `ranges`) are merged so repeated speech appears once.
  */
 export async function transcribeAudio(
     chunks: File[],
-    apiKey: string,
-    onProgress?: (progress: number) => void
-): Promise<string> {
-    if (!apiKey) throw new Error('API Key no configurada');
+    endpoint: OpenAIEndpoint,
+    options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
     if (!chunks.length) throw new Error('No hay archivos para transcribir');
 
-    const results: string[] = [];
+    const { language, ranges = [], checkpoints, signal } = options;
+    const prompt = whisperPrompt(options.glossary ?? []);
+    const onProgress = (p: number) => options.onProgress?.('transcribing', p);
+
+    const results: ChunkTranscription[] = [];
+    let detected: string | undefined;
     const total = chunks.length;
 
-    console.log(`[Groq] Iniciando procesamiento de ${total} fragmentos`);
+    console.log(`[${endpoint.name}] Iniciando procesamiento de ${total} fragmentos`);
 
     for (let i = 0; i < total; i++) {
         // Start minimal progress (5%) + chunk progress
-        onProgress?.(Math.min(0.95, ((i / total) * 0.9) + 0.05));
+        throwIfAborted(signal);
+        onProgress(Math.min(0.95, ((i / total) * 0.9) + 0.05));
+
+        let result = await checkpoints?.get<ChunkTranscription>(`transcript:${i}`);
+        if (result) {
+            console.log(`[${endpoint.name}] Fragmento ${i + 1} ya transcrito, se reutiliza`);
+        } else {
+            result = await transcribeSingleFile(chunks[i], endpoint, language, ranges[i]?.start ?? 0, options, prompt);
+            await checkpoints?.set(`transcript:${i}`, result);
+        }
+        results.push(result);
+        detected ??= result.language;
 
-        const text = await transcribeSingleFile(chunks[i], apiKey);
-        results.push(text);
+        onProgress(((i + 1) / total) * 0.9);
+    }
 
-        onProgress?.(((i + 1) / total) * 0.9);
+    onProgress(1);
+
+    // Servers without segment timestamps: nothing to align on, just concatenate
+    if (results.some((r) => r.segments.length === 0 && r.text.trim())) {
+        return { text: results.map((r) => r.text.trim()).join('\n\n'), language: detected };
     }
 
-    onProgress?.(1);
-    return results.join('\n\n');
+    const merged = mergeTranscriptParts(results.map((r, i) => ({
+        range: ranges[i] ?? { start: 0 },
+        segments: r.segments,
+    })));
+    // Whisper fills silences with invented phrases and loops; drop those, flag doubtful passages
+    const assessed = assessSegments(merged);
+    if (assessed.dropped) console.log(`[${endpoint.name}] ${assessed.dropped} segmentos descartados (posibles alucinaciones)`);
+
+    const speakerId = speakerIdMapper();
+    // Dropped segments are kept (for the segments table) but don't take a speaker number
+    const segments = assessed.segments.map((seg) => (seg.dropped ? seg : { ...seg, speaker: speakerId(seg.speaker) }));
+    const text = formatTranscript(segments);
+
+    return { text, language: detected, segments };
 }
 
-// ~4 chars per token on average. Groq free tier = 12k TPM for Llama 3.3 70B.
-// System prompt ~800 tokens, so keep user content under ~8k tokens (~32k chars).
+// ~4 chars per token on average. Chunks are capped at ~7k tokens so 4k output tokens
+// still leave room for detail; smaller TPM limits (learned from headers) shrink them further.
 const MAX_CHARS_PER_CHUNK = 28000;
-const DELAY_BETWEEN_CHUNKS_MS = 6000; // avoid rate limits
+const MAX_OUTPUT_TOKENS = 4000;
 
 export async function organizeNotes(
     transcription: string,
-    apiKey: string,
-    onStep?: (step: number) => void
-): Promise<string> {
-    if (!apiKey) throw new Error('API Key no configurada');
+    endpoint: OpenAIEndpoint,
+    options: OrganizeOptions = {}
+): Promise<Notes> {
     if (!transcription) throw new Error('No hay transcripción para organizar');
 
-    onStep?.(1);
+    const { onPartial, checkpoints, language } = options;
+    const prompt = options.prompt || defaultNotesPrompt(language);
+    const budget = createTokenBudget(`${endpoint.name}:${endpoint.chatModel}`);
 
-    // Split transcription into manageable chunks
-    const chunks = splitTranscription(transcription, MAX_CHARS_PER_CHUNK);
+    // Split transcription into chunks that fit the account's TPM window
+    // (the size is checkpointed so a resumed job splits the same way)
+    const chunkChars = (await checkpoints?.get<number>('notes:chunkChars'))
+        ?? budget.chunkChars(estimateTokens(prompt) + MAX_OUTPUT_TOKENS, MAX_CHARS_PER_CHUNK);
+    await checkpoints?.set('notes:chunkChars', chunkChars);
+    const chunks = splitTranscription(transcription, chunkChars);
 
     if (chunks.length === 1) {
         // Single chunk — full format
-        const result = await callLlama(chunks[0], apiKey, 'full');
-        onStep?.(4);
+        const result = await callLlama(buildNotesMessages(prompt, chunks[0], undefined, language), endpoint, budget, options, streamPreview(onPartial));
         if (!result) throw new Error('La IA no generó contenido. Intenta de nuevo.');
-        onStep?.(5);
-        return result;
+        return parseNotes(result);
     }
 
-    // Multiple chunks — process each, then merge
-    onStep?.(2);
-    const partResults: string[] = [];
+    // Multiple chunks — map: organize each part in full format
+    const partResults: Notes[] = [];
 
     for (let i = 0; i < chunks.length; i++) {
-        const isFirst = i === 0;
-        const partLabel = `Parte ${i + 1}/${chunks.length}`;
-        const result = await callLlama(
-            chunks[i],
-            apiKey,
-            isFirst ? 'first' : 'continuation',
-            partLabel
-        );
-        if (result) partResults.push(result);
-
-        // Delay between chunks to avoid TPM limits
-        if (i < chunks.length - 1) {
-            await new Promise(r => setTimeout(r, DELAY_BETWEEN_CHUNKS_MS));
+        const saved = await checkpoints?.get<Notes>(`notes:${i}`);
+        if (saved) {
+            partResults.push(saved);
+            continue;
         }
-        onStep?.(2 + Math.floor(((i + 1) / chunks.length) * 2));
-    }
-
-    onStep?.(5);
-    return partResults.join('\n\n---\n\n');
-}
 
-function splitTranscription(text: string, maxChars: number): string[] {
-    if (text.length <= maxChars) return [text];
-
-    const chunks: string[] = [];
-    const lines = text.split('\n');
-    let current = '';
-
-    for (const line of lines) {
-        if (current.length + line.length + 1 > maxChars && current.length > 0) {
-            chunks.push(current.trim());
-            current = '';
+        const result = await callLlama(buildNotesMessages(prompt, chunks[i], partLabel(i, chunks.length, language), language), endpoint, budget, options, streamPreview(onPartial, partResults));
+        if (result) {
+            const notes = parseNotes(result);
+            partResults.push(notes);
+            await checkpoints?.set(`notes:${i}`, notes);
         }
-        current += line + '\n';
     }
-    if (current.trim()) chunks.push(current.trim());
+    if (!partResults.length) throw new Error('La IA no generó contenido. Intenta de nuevo.');
 
-    return chunks;
+    // Reduce: one title/summary/concepts/definitions for the whole class
+    const reduced = await callLlama({ system: reduceSystemPrompt(language), user: buildReduceInput(partResults, language) }, endpoint, budget, options, streamPreview(onPartial, partResults));
+    return assembleNotes(reduced ? parseNotes(reduced) : partResults[0], partResults);
 }
 
 async function callLlama(
-    transcriptionChunk: string,
-    apiKey: string,
-    mode: 'full' | 'first' | 'continuation',
-    partLabel?: string,
+    messages: { system: string; user: string },
+    endpoint: OpenAIEndpoint,
+    budget?: TokenBudget,
+    hooks: RetryHooks = {},
+    onText?: (textSoFar: string) => void,
 ): Promise<string | null> {
-    const systemPrompt = mode === 'full' || mode === 'first'
-        ? `Eres un asistente experto en crear apuntes académicos estructurados. Tu tarea es organizar una transcripción de audio en apuntes profesionales y claros.
-
-FORMATO DE SALIDA (Markdown):
-
-## Título
-[Título breve y descriptivo del tema principal]
-
-## Resumen
-- [Punto 1: máximo 2 líneas]
-- [Punto 2: máximo 2 líneas]
-- [Punto 3: máximo 2 líneas]
-(3-5 bullets)
-
-## Conceptos Clave
-**Término 1**: Breve explicación
-**Término 2**: Breve explicación
-
-## Definiciones
-> **[Concepto]**: [Definición textual del audio]
-
-## Contenido
-
-### [00:00] Introducción
-[Transcripción de esta sección organizada y limpia]
-
-### [MM:SS] [Título de sección]
-[Transcripción de esta sección organizada y limpia]
-
-INSTRUCCIONES IMPORTANTES:
-- Mantén el lenguaje académico pero claro
-- Resalta términos técnicos con **bold**
-- Los timestamps deben estar en formato [MM:SS]
-- Divide en secciones lógicas cada 3-5 minutos aproximadamente
-- Corrige errores gramaticales de la transcripción
-- Elimina muletillas y repeticiones innecesarias
-- Si no hay definiciones claras en el audio, omite la sección de Definiciones`
-        : `Eres un asistente experto en crear apuntes académicos. Esta es una CONTINUACIÓN de una transcripción larga. Organiza SOLO esta parte en secciones del contenido (no repitas el Resumen ni Conceptos Clave).
-
-FORMATO DE SALIDA (Markdown):
-### [MM:SS] [Título de sección]
-[Contenido organizado]
-
-INSTRUCCIONES:
-- Mantén el lenguaje académico pero claro
-- Resalta términos técnicos con **bold**
-- Usa timestamps [MM:SS]
-- Corrige errores gramaticales
-- Elimina muletillas`;
+    const { system: systemPrompt, user: userContent } = messages;
 
-    const userContent = partLabel
-        ? `${partLabel} — AUDIO TRANSCRITO:\n\n${transcriptionChunk}\n\nOrganiza esta parte de la transcripción.`
-        : `AUDIO TRANSCRITO:\n\n${transcriptionChunk}\n\nOrganiza esta transcripción en apuntes estructurados siguiendo el formato indicado.`;
+    // Wait for the TPM window only when this request wouldn't fit in what's left of it
+    await budget?.waitFor(estimateTokens(systemPrompt + userContent) + MAX_OUTPUT_TOKENS, hooks);
 
-    const response = await fetch(`${GROQ_API_URL}/chat/completions`, {
+    const response = await fetchWithRetry(`${endpoint.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
-            'Authorization': `Bearer ${apiKey}`,
+            ...authHeaders(endpoint),
             'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-            model: 'meta-llama/llama-4-scout-17b-16e-instruct',
+            model: endpoint.chatModel,
             messages: [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userContent },
             ],
             temperature: 0.3,
-            max_tokens: 4000,
+            max_tokens: MAX_OUTPUT_TOKENS,
+            // No `response_format`: Groq rejects JSON mode on streamed requests.
+            // The prompt asks for JSON and parseNotes validates it against NOTES_SCHEMA
+            stream: true,
         }),
+    }, {
+        label: endpoint.name,
+        signal: hooks.signal,
+        onWait: hooks.onWait,
     });
+    budget?.update(response);
 
     if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         if (response.status === 429) {
-            // Wait and retry once
-            await new Promise(r => setTimeout(r, 10000));
-            return callLlama(transcriptionChunk, apiKey, mode, partLabel);
+            throw new Error(`Límite de ${endpoint.name} alcanzado. Espera un momento.`);
         }
         throw new Error(errorData?.error?.message || `Error del servidor (${response.status})`);
     }
 
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || null;
+    // Servers that ignore `stream` answer with a single JSON body
+    if (!isEventStream(response)) {
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || null;
+    }
+
+    let text = '';
+    await readEventStream(response, (data) => {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (!delta) return;
+        text += delta;
+        onText?.(text);
+    }, hooks.signal);
+    return text || null;
 }
 // ... existing code ...
 
-export async function validateGroqKey(apiKey: string): Promise<boolean> {
+/**
+ * List model ids exposed by the endpoint's `/models` route.
+ * Throws if the endpoint is unreachable or rejects the key.
+ */
+export async function listModels(endpoint: OpenAIEndpoint): Promise<string[]> {
+    const response = await fetch(`${endpoint.baseUrl}/models`, {
+        method: 'GET',
+        headers: authHeaders(endpoint),
+    });
+    if (!response.ok) throw new Error(`Error del servidor (${response.status})`);
+
+    const data = await response.json();
+    return (data.data || []).map((m: any) => m.id).filter(Boolean);
+}
+
+export async function validateEndpoint(endpoint: OpenAIEndpoint): Promise<boolean> {
     try {
-        const response = await fetch(`${GROQ_API_URL}/models`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${apiKey}` },
-        });
-        return response.ok;
+        await listModels(endpoint);
+        return true;
     } catch (e) {
-        console.error('Groq validation error:', e);
+        console.error(`${endpoint.name} validation error:`, e);
         return false;
     }
 }
+
+export const groqProvider: AIProvider = {
+    id: 'groq',
+    label: 'Groq',
+    models: 'Whisper + Llama 4 Scout',
+    key: {
+        storageKey: 'scn-api-key',
+        prefix: 'gsk_',
+        placeholder: 'gsk_...',
+        url: 'https://console.groq.com/keys',
+    },
+    defaults: {
+        transcriptionModel: DEFAULT_TRANSCRIPTION_MODEL,
+        chatModel: DEFAULT_CHAT_MODEL,
+    },
+    settingsFields: ['transcriptionModel', 'chatModel'],
+    capabilities: {
+        maxUploadSize: 25 * 1024 * 1024, // Whisper endpoint limit
+        nativeLongAudio: false,
+        requiresUpload: false,
+    },
+    transcribe: (chunks, ctx, options) => transcribeAudio(chunks, groqEndpoint(ctx), options),
+    organize: (transcription, ctx, options) => organizeNotes(transcription, groqEndpoint(ctx), options),
+    validateKey: (ctx) => validateEndpoint(groqEndpoint(ctx)),
+    listModels: (ctx) => listModels(groqEndpoint(ctx)),
+};
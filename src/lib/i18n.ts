@@ -95,6 +95,7 @@ export const translations = {
     'notif.transcribing': { es: 'Transcribiendo...', en: 'Transcribing...' },
     'notif.analyzing': { es: 'Generando notas...', en: 'Generating notes...' },
     'notif.processing': { es: 'Procesando...', en: 'Processing...' },
+    'notif.rate_limited': { es: 'Esperando límite de tasa', en: 'Waiting for rate limit' },
     'notif.click_view': { es: 'Click para ver resultados', en: 'Click to view results' },
     'notif.audio_extracted': { es: 'Audio extraído', en: 'Audio extracted' },
     'notif.audio_optimized': { es: 'Audio optimizado', en: 'Audio optimized' },
@@ -140,6 +141,29 @@ export const translations = {
     'app.upload.select': { es: 'Seleccionar archivo', en: 'Select file' },
     'app.upload.transcribe': { es: 'Transcribir con IA', en: 'Transcribe with AI' },
     'app.upload.remove': { es: 'Eliminar archivo', en: 'Remove file' },
+    'app.upload.language': { es: 'Idioma del audio', en: 'Audio language' },
+    'app.upload.language.auto': { es: 'Detectar automáticamente', en: 'Auto-detect' },
+    'app.upload.notes_language': { es: 'Idioma de los apuntes', en: 'Notes language' },
+    'app.upload.notes_language.ui': { es: 'Idioma de la interfaz', en: 'Interface language' },
+    'app.upload.profile': { es: 'Perfil de apuntes', en: 'Notes profile' },
+    'app.upload.profile.edit': { es: 'Editar perfiles', en: 'Edit profiles' },
+    'app.upload.course': { es: 'Curso', en: 'Course' },
+    'app.upload.course.none': { es: 'Sin curso', en: 'No course' },
+    'app.upload.course.glossary': { es: 'Editar glosario', en: 'Edit glossary' },
+    'app.profiles.title': { es: 'Perfiles de apuntes', en: 'Notes profiles' },
+    'app.profiles.new': { es: 'Nuevo', en: 'New' },
+    'app.profiles.new_name': { es: 'Nuevo perfil', en: 'New profile' },
+    'app.profiles.name': { es: 'Nombre', en: 'Name' },
+    'app.profiles.prompt': { es: 'Instrucciones para la IA', en: 'AI instructions' },
+    'app.profiles.reset': { es: 'Restaurar predeterminado', en: 'Restore default' },
+    'app.profiles.hint': { es: 'Describe qué incluir en los apuntes. El formato de respuesta (JSON) y el idioma de los apuntes se agregan automáticamente.', en: 'Describe what the notes should include. The reply format (JSON) and the notes language are added automatically.' },
+    'app.profiles.preview': { es: 'Vista previa con una transcripción de ejemplo', en: 'Preview with a sample transcript' },
+    'app.profiles.delete': { es: 'Eliminar', en: 'Delete' },
+    'app.glossary.title': { es: 'Glosario', en: 'Glossary' },
+    'app.glossary.terms': { es: 'Términos (uno por línea)', en: 'Terms (one per line)' },
+    'app.glossary.placeholder': { es: 'Paracetamol\nHabeas corpus\nx_max', en: 'Acetaminophen\nHabeas corpus\nx_max' },
+    'app.glossary.hint': { es: 'Se envían al transcriptor para que los escriba bien. Los conceptos clave de cada clase se añaden solos.', en: 'Sent to the transcriber so it spells them right. Each class\'s key concepts are added automatically.' },
+    'app.glossary.no_course': { es: 'Escribe un curso para editar su glosario.', en: 'Type a course to edit its glossary.' },
     'app.record.start': { es: 'Grabar Audio', en: 'Record Audio' },
     'app.record.stop': { es: 'Detener', en: 'Stop' },
     'app.record.recording': { es: 'Grabando', en: 'Recording' },
@@ -149,16 +173,18 @@ export const translations = {
         es: 'Procesando audio rápido con Whisper + Llama 4 Scout',
         en: 'Fast audio processing with Whisper + Llama 4 Scout',
     },
+    'app.processing.cancel': { es: 'Cancelar proceso', en: 'Cancel processing' },
     'app.ai.title': { es: 'Organizando con IA', en: 'Organizing with AI' },
     'app.ai.desc': {
-        es: 'Llama 4 Scout está creando tus apuntes',
-        en: 'Llama 4 Scout is creating your notes',
+        es: 'está creando tus apuntes',
+        en: 'is creating your notes',
     },
     'app.ai.step1': { es: 'Analizando contenido...', en: 'Analyzing content...' },
-    'app.ai.step2': { es: 'Extrayendo conceptos clave...', en: 'Extracting key concepts...' },
-    'app.ai.step3': { es: 'Generando resumen...', en: 'Generating summary...' },
-    'app.ai.step4': { es: 'Estructurando documento...', en: 'Structuring document...' },
+    'app.ai.step2': { es: 'Generando resumen...', en: 'Generating summary...' },
+    'app.ai.step3': { es: 'Extrayendo conceptos clave...', en: 'Extracting key concepts...' },
+    'app.ai.step4': { es: 'Estructurando secciones...', en: 'Structuring sections...' },
     'app.ai.step5': { es: 'Listo', en: 'Done' },
+    'app.ai.preview': { es: 'Vista previa en vivo', en: 'Live preview' },
     'app.editor.markdown': { es: 'Editor Markdown', en: 'Markdown Editor' },
     'app.editor.preview': { es: 'Vista previa', en: 'Preview' },
     'app.editor.new': { es: 'Nuevo', en: 'New' },
@@ -168,6 +194,11 @@ export const translations = {
     'app.editor.download': { es: 'Descargar PDF', en: 'Download PDF' },
     'app.editor.downloading': { es: 'Generando...', en: 'Generating...' },
     'app.editor.downloaded': { es: 'Descargado', en: 'Downloaded' },
+    'app.editor.speakers': { es: 'Hablantes', en: 'Speakers' },
+    'app.editor.speakers.rename': { es: 'Renombrar (también en los apuntes)', en: 'Rename (also in the notes)' },
+    'app.editor.flagged': { es: 'fragmentos resaltados podrían estar mal transcritos. Revísalos con el audio.', en: 'highlighted passages may be transcribed wrong. Check them against the audio.' },
+    'app.editor.flag.low_confidence': { es: 'Baja confianza', en: 'Low confidence' },
+    'app.editor.flag.repetition': { es: 'Posible repetición o alucinación', en: 'Possible repetition or hallucination' },
     'app.config.title': { es: 'Configuración', en: 'Settings' },
     'app.config.apikey': { es: 'Groq API Key', en: 'Groq API Key' },
     'app.config.show': { es: 'Mostrar', en: 'Show' },
@@ -185,6 +216,7 @@ export const translations = {
     'app.config.format_label': { es: 'Formato:', en: 'Format:' },
     'app.config.error.groq': { es: 'La API Key de Groq no es válida o no tiene créditos/acceso.', en: 'Groq API Key is invalid or has no credits/access.' },
     'app.config.error.gemini': { es: 'La API Key de Gemini no es válida.', en: 'Gemini API Key is invalid.' },
+    'app.config.error.custom': { es: 'No se pudo conectar al endpoint o la API Key no es válida.', en: 'Could not reach the endpoint or the API Key is invalid.' },
     'app.config.error.network': { es: 'Error al validar las llaves via red.', en: 'Error validating keys via network.' },
     'app.config.privacy': {
         es: 'Tu API key se guarda solo en tu navegador. Nunca la enviamos a ningún servidor.',
@@ -192,9 +224,23 @@ export const translations = {
     },
     'app.config.howto': { es: '¿Cómo obtener mi API key?', en: 'How to get my API key?' },
     'app.config.pdfstyle': { es: 'Estilo de PDF', en: 'PDF Style' },
-    'app.config.provider': { es: 'Proveedor de IA', en: 'AI Provider' },
+    'app.config.provider': { es: 'Proveedor de transcripción', en: 'Transcription provider' },
+    'app.config.organize_provider': { es: 'Proveedor para organizar apuntes', en: 'Notes organization provider' },
+    'app.config.same_provider': { es: 'El mismo que transcribe', en: 'Same as transcription' },
+    'app.config.fallback': { es: 'Orden de respaldo', en: 'Fallback order' },
+    'app.config.fallback_hint': { es: 'Si un paso falla, se reintenta con el siguiente proveedor marcado, que recibirá el audio. Sin marcar ninguno, el trabajo se queda en el proveedor elegido.', en: 'If a step fails, it is retried on the next checked provider, which will receive the audio. With none checked, the job stays on the chosen provider.' },
+    'app.config.no_key': { es: 'Sin clave', en: 'No key' },
+    'app.config.purge': { es: 'Buscar mis archivos subidos', en: 'Find my uploaded files' },
+    'app.config.purge.hint': { es: 'las grabaciones se borran al terminar; busca las que hayan quedado.', en: 'recordings are deleted when done; look for any left behind.' },
+    'app.config.purge.found': { es: 'archivos subidos quedan guardados', en: 'uploaded files still stored' },
+    'app.config.purge.confirm': { es: 'Borrar estos archivos', en: 'Delete these files' },
+    'app.config.purge.done': { es: 'archivos eliminados', en: 'files deleted' },
     'app.config.groq.get': { es: 'Obtener API Key de Groq', en: 'Get Groq API Key' },
     'app.config.gemini.get': { es: 'Obtener API Key de Gemini', en: 'Get Gemini API Key' },
+    'app.config.optional': { es: 'opcional', en: 'optional' },
+    'app.config.field.baseUrl': { es: 'URL base (compatible con OpenAI)', en: 'Base URL (OpenAI-compatible)' },
+    'app.config.field.transcriptionModel': { es: 'Modelo de transcripción', en: 'Transcription model' },
+    'app.config.field.chatModel': { es: 'Modelo de chat', en: 'Chat model' },
     'app.config.close': { es: 'Cerrar', en: 'Close' },
     'app.style.minimalista': { es: 'Minimalista', en: 'Minimalist' },
     'app.style.academico': { es: 'Académico', en: 'Academic' },
@@ -0,0 +1,99 @@
+import type { Notes } from './db';
+import { languageDirective, NOTES_HEADINGS, NOTES_JSON_INSTRUCTION, type NotesLanguage } from './prompts';
+
+/**
+ * Map-reduce helpers for long transcripts: each part is organized on its own
+ * (map), then the per-part headers are condensed into one set (reduce).
+ */
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const TITLE_NAMES = [...new Set(Object.values(NOTES_HEADINGS).map((h) => escape(h.title)))].join('|');
+
+// Matched in every output language; only needed for markdown edited by hand or saved before Notes existed
+const TITLE_SECTION = new RegExp(`^## (?:${TITLE_NAMES}|Titulo)\\s*\\n+([^\\n]+)\\n*`, 'mi');
+
+/**
+ * Section headings in any output language (e.g. to tell a heading from a title).
+ */
+export const SECTION_NAMES: string[] = [...new Set(
+    Object.values(NOTES_HEADINGS).flatMap((h) => [h.summary, h.concepts, h.definitions, h.content, h.intro])
+)];
+
+export function splitTranscription(text: string, maxChars: number): string[] {
+    if (text.length <= maxChars) return [text];
+
+    const chunks: string[] = [];
+    const lines = text.split('\n');
+    let current = '';
+
+    for (const line of lines) {
+        if (current.length + line.length + 1 > maxChars && current.length > 0) {
+            chunks.push(current.trim());
+            current = '';
+        }
+        current += line + '\n';
+    }
+    if (current.trim()) chunks.push(current.trim());
+
+    return chunks;
+}
+
+/**
+ * Pull the "## Título" / "## Title" / ... section out of markdown notes.
+ */
+export function extractTitle(notes: string): { title: string; body: string } {
+    const match = TITLE_SECTION.exec(notes);
+    if (!match) return { title: '', body: notes.trim() };
+    return {
+        title: match[1].trim().replace(/\*\*/g, ''),
+        body: (notes.slice(0, match.index) + notes.slice(match.index + match[0].length)).trim(),
+    };
+}
+
+export const REDUCE_SYSTEM_PROMPT = `Eres un asistente experto en crear apuntes académicos estructurados. Recibirás los encabezados (título, resumen, conceptos clave y definiciones) de los apuntes de varias partes consecutivas de UNA MISMA clase. Unifícalos en un único encabezado que describa la clase completa.
+
+INSTRUCCIONES IMPORTANTES:
+- El título debe describir el tema principal de toda la clase
+- El resumen debe tener 3-6 puntos que cubran TODAS las partes, no solo la primera
+- Combina conceptos y definiciones repetidos entre partes en una sola entrada
+- Respeta el orden en que aparecen los temas en la clase
+- Deja vacía la lista de secciones
+- Si ninguna parte tiene definiciones, deja vacía la lista de definiciones`;
+
+export const REDUCE_SYSTEM_PROMPT_EN = `You are an expert assistant at writing structured academic notes. You will receive the headers (title, summary, key concepts and definitions) of the notes for several consecutive parts of ONE class. Merge them into a single header that describes the whole class.
+
+IMPORTANT INSTRUCTIONS:
+- The title must describe the main topic of the whole class
+- The summary must have 3-6 points covering ALL the parts, not just the first one
+- Combine concepts and definitions repeated across parts into a single entry
+- Keep the order in which topics come up in the class
+- Leave the sections list empty
+- If no part has definitions, leave the definitions list empty`;
+
+// Like the organize prompt: Spanish for Spanish notes, English otherwise (the language directive does the rest)
+export function reduceSystemPrompt(language: NotesLanguage = 'es'): string {
+    const prompt = language === 'es' ? REDUCE_SYSTEM_PROMPT : REDUCE_SYSTEM_PROMPT_EN;
+    return `${prompt}\n\n${NOTES_JSON_INSTRUCTION}\n\n${languageDirective(language)}`;
+}
+
+/**
+ * "Parte 2/5" / "Part 2/5": marks one part of a long transcript in its organize call.
+ */
+export function partLabel(index: number, total: number, language: NotesLanguage = 'es'): string {
+    return `${language === 'es' ? 'Parte' : 'Part'} ${index + 1}/${total}`;
+}
+
+export function buildReduceInput(parts: Notes[], language: NotesLanguage = 'es'): string {
+    const headers = parts.map(({ sections: _sections, ...header }, i) => ({ part: `${i + 1}/${parts.length}`, ...header }));
+    const json = JSON.stringify(headers, null, 2);
+    return language === 'es'
+        ? `ENCABEZADOS POR PARTE (JSON):\n\n${json}\n\nUnifica estos encabezados en uno solo para toda la clase.`
+        : `HEADERS BY PART (JSON):\n\n${json}\n\nMerge these headers into a single one for the whole class.`;
+}
+
+/**
+ * Final document: the unified header followed by every part's sections, in order.
+ */
+export function assembleNotes(reduced: Notes, parts: Notes[]): Notes {
+    return { ...reduced, sections: parts.flatMap((p) => p.sections) };
+}
@@ -0,0 +1,220 @@
+import type { Notes } from './db';
+import { NOTES_HEADINGS, type NotesLanguage } from './prompts';
+
+/**
+ * Structured notes: the JSON schema organizers are asked to follow, validation of
+ * what they return, and the markdown the editor works on.
+ */
+
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+}
+
+const TERM_SCHEMA = (field: 'explanation' | 'definition'): JsonSchema => ({
+    type: 'object',
+    properties: {
+        term: { type: 'string' },
+        [field]: { type: 'string' },
+    },
+    required: ['term', field],
+});
+
+export const NOTES_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: 'Título breve y descriptivo del tema principal' },
+        summary: { type: 'array', items: { type: 'string' }, description: '3-5 puntos de máximo 2 líneas' },
+        concepts: { type: 'array', items: TERM_SCHEMA('explanation') },
+        definitions: { type: 'array', items: TERM_SCHEMA('definition') },
+        sections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    time: { type: 'string', description: 'Inicio de la sección, MM:SS' },
+                    heading: { type: 'string' },
+                    body: { type: 'string', description: 'Contenido en Markdown' },
+                },
+                required: ['time', 'heading', 'body'],
+            },
+        },
+    },
+    required: ['title', 'summary', 'concepts', 'definitions', 'sections'],
+};
+
+function schemaErrors(schema: JsonSchema, value: unknown, path: string): string[] {
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' ? [] : [`${path} debe ser texto`];
+        case 'array':
+            if (!Array.isArray(value)) return [`${path} debe ser una lista`];
+            return value.flatMap((item, i) => schemaErrors(schema.items!, item, `${path}[${i}]`));
+        case 'object': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} debe ser un objeto`];
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required || []).filter((k) => record[k] === undefined).map((k) => `falta ${path}.${k}`);
+            const invalid = Object.entries(schema.properties || {})
+                .filter(([k]) => record[k] !== undefined)
+                .flatMap(([k, s]) => schemaErrors(s, record[k], `${path}.${k}`));
+            return [...missing, ...invalid];
+        }
+    }
+}
+
+const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Parse an organizer's reply into Notes. Tolerates markdown code fences and
+ * bracketed timestamps; anything else off-schema is an error.
+ */
+export function parseNotes(text: string): Notes {
+    const json = stripFences(text);
+    let value: any;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error('La IA no devolvió apuntes en formato JSON. Intenta de nuevo.');
+    }
+
+    // Models sometimes omit empty lists
+    for (const key of ['summary', 'concepts', 'definitions', 'sections']) {
+        if (value && typeof value === 'object' && value[key] === undefined) value[key] = [];
+    }
+
+    const errors = schemaErrors(NOTES_SCHEMA, value, 'notas');
+    if (errors.length) {
+        throw new Error(`Formato de apuntes inválido: ${errors.slice(0, 3).join(', ')}`);
+    }
+
+    const notes = value as Notes;
+    return {
+        title: notes.title.trim(),
+        summary: notes.summary,
+        concepts: notes.concepts.map(({ term, explanation }) => ({ term, explanation })),
+        definitions: notes.definitions.map(({ term, definition }) => ({ term, definition })),
+        sections: notes.sections.map(({ time, heading, body }) => ({
+            time: time.replace(/[\[\]]/g, '').trim(),
+            heading,
+            body,
+        })),
+    };
+}
+
+/**
+ * Markdown for the editor, with headings in the notes language.
+ * The title is left out: it is shown (and exported) separately.
+ */
+export function renderNotesMarkdown(notes: Notes, language: NotesLanguage = 'es'): string {
+    const h = NOTES_HEADINGS[language];
+    const blocks: string[] = [];
+
+    if (notes.summary.length) {
+        blocks.push(`## ${h.summary}\n${notes.summary.map((s) => `- ${s}`).join('\n')}`);
+    }
+    if (notes.concepts.length) {
+        blocks.push(`## ${h.concepts}\n${notes.concepts.map((c) => `**${c.term}**: ${c.explanation}`).join('\n')}`);
+    }
+    if (notes.definitions.length) {
+        blocks.push(`## ${h.definitions}\n${notes.definitions.map((d) => `> **${d.term}**: ${d.definition}`).join('\n\n')}`);
+    }
+    if (notes.sections.length) {
+        const sections = notes.sections.map((s) => `### [${s.time}] ${s.heading}\n${s.body.trim()}`);
+        blocks.push(`## ${h.content}\n\n${sections.join('\n\n')}`);
+    }
+
+    return blocks.join('\n\n');
+}
+
+/**
+ * Close whatever strings/objects/arrays are still open in a truncated JSON document.
+ */
+function closeJson(json: string): string {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const ch of json) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') inString = true;
+        else if (ch === '{') stack.push('}');
+        else if (ch === '[') stack.push(']');
+        else if (ch === '}' || ch === ']') stack.pop();
+    }
+
+    let closed = json;
+    if (inString) closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+    closed = closed.trimEnd();
+    if (closed.endsWith(',')) closed = closed.slice(0, -1);
+    if (closed.endsWith(':')) closed += 'null';
+    return closed + stack.reverse().join('');
+}
+
+const asString = (v: unknown) => (typeof v === 'string' ? v : '');
+const asArray = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+
+/**
+ * Best-effort Notes from a reply that is still streaming (missing fields are empty).
+ * Returns null until there's enough JSON to read anything.
+ */
+export function parsePartialNotes(text: string): Notes | null {
+    let json = stripFences(text);
+
+    for (let attempt = 0; attempt < 4 && json; attempt++) {
+        try {
+            const value = JSON.parse(closeJson(json)) ?? {};
+            return {
+                title: asString(value.title),
+                summary: asArray(value.summary).filter((s) => typeof s === 'string'),
+                concepts: asArray(value.concepts).map((c) => ({ term: asString(c?.term), explanation: asString(c?.explanation) })),
+                definitions: asArray(value.definitions).map((d) => ({ term: asString(d?.term), definition: asString(d?.definition) })),
+                sections: asArray(value.sections).map((s) => ({
+                    time: asString(s?.time).replace(/[\[\]]/g, ''),
+                    heading: asString(s?.heading),
+                    body: asString(s?.body),
+                })),
+            };
+        } catch {
+            // Cut a dangling key or half-written literal and try again
+            const cut = Math.max(json.lastIndexOf(','), json.lastIndexOf('{'), json.lastIndexOf('['));
+            if (cut < 0) return null;
+            json = json.slice(0, json[cut] === ',' ? cut : cut + 1);
+        }
+    }
+    return null;
+}
+
+/**
+ * Which stage of the notes a (partial) reply has reached, as an AIProcessing step:
+ * 1 title/summary, 2 concepts/definitions, 3 sections.
+ */
+export function notesStep(notes: Notes): number {
+    if (notes.sections.length) return 3;
+    if (notes.concepts.length || notes.definitions.length) return 2;
+    if (notes.title || notes.summary.length) return 1;
+    return 0;
+}
+
+const PREVIEW_INTERVAL_MS = 150;
+
+/**
+ * Turn a streamed reply into throttled `onPartial` calls. `doneParts` are the parts of a
+ * long transcript already organized; their sections come first in the preview.
+ */
+export function streamPreview(onPartial: ((notes: Notes) => void) | undefined, doneParts: Notes[] = []) {
+    let last = 0;
+    return (text: string) => {
+        if (!onPartial || Date.now() - last < PREVIEW_INTERVAL_MS) return;
+        last = Date.now();
+
+        const partial = parsePartialNotes(text);
+        if (!partial) return;
+        onPartial({ ...partial, sections: [...doneParts.flatMap((p) => p.sections), ...partial.sections] });
+    };
+}
@@ -0,0 +1,144 @@
+/**
+ * Prompt templates for organizing a transcription into notes, shared by every provider.
+ * A note profile (stored in IndexedDB) swaps the system prompt; the reply format (JSON)
+ * and output language are appended to it, so profiles only describe the content.
+ */
+
+export const NOTES_LANGUAGES = ['es', 'en', 'pt', 'fr', 'de', 'it'] as const;
+export type NotesLanguage = typeof NOTES_LANGUAGES[number];
+
+export interface NotesHeadings {
+    title: string;
+    summary: string;
+    concepts: string;
+    definitions: string;
+    content: string;
+    intro: string;
+}
+
+/**
+ * Section headings per output language, used to render notes as markdown.
+ * Parsing edited markdown accepts any of them.
+ */
+export const NOTES_HEADINGS: Record<NotesLanguage, NotesHeadings> = {
+    es: { title: 'Título', summary: 'Resumen', concepts: 'Conceptos Clave', definitions: 'Definiciones', content: 'Contenido', intro: 'Introducción' },
+    en: { title: 'Title', summary: 'Summary', concepts: 'Key Concepts', definitions: 'Definitions', content: 'Content', intro: 'Introduction' },
+    pt: { title: 'Título', summary: 'Resumo', concepts: 'Conceitos-Chave', definitions: 'Definições', content: 'Conteúdo', intro: 'Introdução' },
+    fr: { title: 'Titre', summary: 'Résumé', concepts: 'Concepts Clés', definitions: 'Définitions', content: 'Contenu', intro: 'Introduction' },
+    de: { title: 'Titel', summary: 'Zusammenfassung', concepts: 'Schlüsselbegriffe', definitions: 'Definitionen', content: 'Inhalt', intro: 'Einführung' },
+    it: { title: 'Titolo', summary: 'Riepilogo', concepts: 'Concetti Chiave', definitions: 'Definizioni', content: 'Contenuto', intro: 'Introduzione' },
+};
+
+export function isNotesLanguage(value: unknown): value is NotesLanguage {
+    return NOTES_LANGUAGES.some((l) => l === value);
+}
+
+export const DEFAULT_NOTES_PROMPT = `Eres un asistente experto en crear apuntes académicos estructurados. Tu tarea es organizar una transcripción de audio en apuntes profesionales y claros.
+
+CONTENIDO DE LOS APUNTES:
+- Título: breve y descriptivo del tema principal
+- Resumen: 3-5 puntos de máximo 2 líneas
+- Conceptos clave: cada término con una breve explicación
+- Definiciones: cada concepto con su definición textual del audio
+- Secciones: el contenido dividido en secciones lógicas cada 3-5 minutos aproximadamente, cada una con su timestamp de inicio (MM:SS), un título y la transcripción de esa parte organizada y limpia. La primera es la introducción, en 00:00
+
+INSTRUCCIONES IMPORTANTES:
+- Mantén el lenguaje académico pero claro
+- Resalta términos técnicos con **bold** dentro de las secciones
+- Corrige errores gramaticales de la transcripción
+- Elimina muletillas y repeticiones innecesarias
+- Si no hay definiciones claras en el audio, deja vacía la lista de definiciones`;
+
+export const DEFAULT_NOTES_PROMPT_EN = `You are an expert assistant at writing structured academic notes. Your task is to organize an audio transcription into clear, professional notes.
+
+NOTES CONTENT:
+- Title: short and descriptive of the main topic
+- Summary: 3-5 points, 2 lines max each
+- Key concepts: each term with a short explanation
+- Definitions: each concept with its definition as stated in the audio
+- Sections: the content split into logical sections roughly every 3-5 minutes, each with its start timestamp (MM:SS), a title and that part of the transcript organized and cleaned up. The first one is the introduction, at 00:00
+
+IMPORTANT INSTRUCTIONS:
+- Keep the language academic but clear
+- Highlight technical terms in **bold** inside the sections
+- Fix grammatical errors from the transcription
+- Remove filler words and unnecessary repetition
+- If the audio has no clear definitions, leave the definitions list empty`;
+
+/**
+ * Reply format appended to every organize prompt; the reply is validated against NOTES_SCHEMA (notes.ts).
+ */
+export const NOTES_JSON_INSTRUCTION = `FORMATO DE RESPUESTA: responde SOLO con un objeto JSON válido, sin texto adicional, con esta forma:
+{"title": string, "summary": [string], "concepts": [{"term": string, "explanation": string}], "definitions": [{"term": string, "definition": string}], "sections": [{"time": "MM:SS", "heading": string, "body": string}]}`;
+
+/**
+ * Built-in prompt for a language: Spanish for Spanish notes, English otherwise
+ * (the language directive takes care of the rest).
+ */
+export function defaultNotesPrompt(language: NotesLanguage = 'es'): string {
+    return language === 'es' ? DEFAULT_NOTES_PROMPT : DEFAULT_NOTES_PROMPT_EN;
+}
+
+/**
+ * Prompt a profile organizes with: a profile still holding the built-in prompt
+ * (in any language) gets the built-in one for the notes language.
+ */
+export function resolveProfilePrompt(prompt: string | undefined, language: NotesLanguage = 'es'): string {
+    const builtIn = !prompt?.trim() || prompt === DEFAULT_NOTES_PROMPT || prompt === DEFAULT_NOTES_PROMPT_EN;
+    return builtIn ? defaultNotesPrompt(language) : prompt!;
+}
+
+/**
+ * Appended to every system prompt so any template (including custom profiles)
+ * writes in the chosen language.
+ */
+export function languageDirective(language: NotesLanguage): string {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+    return `OUTPUT LANGUAGE: Write every text value in ${name}, whatever the language of the audio or of these instructions. Keep the JSON keys as given.`;
+}
+
+/**
+ * Profiles seeded into IndexedDB when none exist.
+ */
+export const DEFAULT_PROFILES: { name: string; prompt: string }[] = [
+    { name: 'General', prompt: DEFAULT_NOTES_PROMPT },
+    {
+        name: 'Matemáticas (fórmulas)',
+        prompt: `${DEFAULT_NOTES_PROMPT}
+- Escribe cada fórmula en su propia línea en notación LaTeX entre $$ ... $$
+- Conserva los pasos de las demostraciones y ejemplos resueltos en orden
+- Incluye las fórmulas principales como conceptos clave (nombre de la fórmula: fórmula y qué calcula)`,
+    },
+    {
+        name: 'Derecho (citas de casos)',
+        prompt: `${DEFAULT_NOTES_PROMPT}
+- Cita casos, sentencias, leyes y artículos tal como se mencionan (nombre, número, año)
+- Distingue entre la norma, la interpretación del docente y las opiniones de los participantes
+- Incluye los casos citados como conceptos clave (nombre del caso: criterio que establece)`,
+    },
+];
+
+export const SAMPLE_TRANSCRIPTION = `[00:00] Buenos días, hoy vamos a ver el ciclo de Krebs.
+[00:06] Es una serie de reacciones que ocurre en la mitocondria...`;
+
+/**
+ * System + user messages for one organize call (partLabel marks a part of a long transcript).
+ */
+export function buildNotesMessages(
+    systemPrompt: string,
+    transcription: string,
+    partLabel?: string,
+    language: NotesLanguage = 'es'
+): { system: string; user: string } {
+    const system = `${systemPrompt}\n\n${NOTES_JSON_INSTRUCTION}\n\n${languageDirective(language)}`;
+    if (language !== 'es') {
+        const user = partLabel
+            ? `${partLabel} — TRANSCRIBED AUDIO:\n\n${transcription}\n\nOrganize this part of the transcription.`
+            : `TRANSCRIBED AUDIO:\n\n${transcription}\n\nOrganize this transcription into structured notes following the given format.`;
+        return { system, user };
+    }
+    const user = partLabel
+        ? `${partLabel} — AUDIO TRANSCRITO:\n\n${transcription}\n\nOrganiza esta parte de la transcripción.`
+        : `AUDIO TRANSCRITO:\n\n${transcription}\n\nOrganiza esta transcripción en apuntes estructurados siguiendo el formato indicado.`;
+    return { system, user };
+}
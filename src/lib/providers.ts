@@ -0,0 +1,207 @@
+import type { Provider } from './store';
+import type { AudioRange } from './audio-processor';
+import type { CheckpointStore, Notes } from './db';
+import type { NotesLanguage } from './prompts';
+import type { TimedSegment } from './transcript-merge';
+import { groqProvider } from './groq';
+import { geminiProvider } from './gemini';
+import { customProvider } from './custom';
+
+export type TranscriptionStage = 'uploading' | 'transcribing';
+
+export interface TranscribeOptions {
+    language?: string;  // ISO-639-1 code; undefined = auto-detect
+    glossary?: string[]; // Course vocabulary to spell correctly
+    ranges?: AudioRange[]; // Where each chunk sits in the full recording; consecutive ranges may overlap
+    onProgress?: (stage: TranscriptionStage, progress: number) => void;
+    onUploadBytes?: (sent: number, total: number) => void; // Bytes of the current file the provider has received
+    checkpoints?: CheckpointStore; // Finished chunks are saved here and skipped on resume
+    signal?: AbortSignal;          // Cancels in-flight requests and waits
+    onWait?: (seconds: number) => void; // Rate-limit / retry wait starting (0 = resumed)
+}
+
+export interface OrganizeOptions {
+    onPartial?: (notes: Notes) => void; // Notes parsed so far from the streamed reply
+    prompt?: string;    // System prompt from the note profile; the shared default otherwise
+    language?: NotesLanguage; // Language the notes are written in (default 'es')
+    checkpoints?: CheckpointStore; // Finished parts are saved here and skipped on resume
+    signal?: AbortSignal;
+    onWait?: (seconds: number) => void;
+}
+
+export interface TranscriptionResult {
+    text: string;
+    language?: string; // Detected language (ISO-639-1), when the provider reports it
+    segments?: TimedSegment[]; // The segments `text` was formatted from, when the provider gives timings
+}
+
+export interface ProviderCapabilities {
+    maxUploadSize: number;      // Largest single file the transcription endpoint accepts (bytes)
+    nativeLongAudio: boolean;   // Can handle a full lecture in one request without chunking
+    requiresUpload: boolean;    // Audio is uploaded first (shows the "uploading" stage)
+}
+
+export interface ProviderKeyConfig {
+    storageKey: string;   // localStorage slot for the encrypted key
+    prefix: string;       // Expected key prefix, used for format hints
+    placeholder: string;
+    url?: string;         // Where users can get a key
+    optional?: boolean;   // Self-hosted servers may not need one
+}
+
+/**
+ * Non-secret, per-provider settings (persisted in localStorage).
+ */
+export interface ProviderSettings {
+    baseUrl?: string;
+    transcriptionModel?: string;
+    chatModel?: string;
+}
+
+export type ProviderSettingField = keyof ProviderSettings;
+
+/**
+ * Everything a provider call needs besides its payload.
+ */
+export interface ProviderContext {
+    apiKey: string; // Decrypted
+    settings: ProviderSettings;
+}
+
+/**
+ * A recording this app left in a provider's storage.
+ */
+export interface StoredUpload {
+    name: string;        // Provider's id for the file
+    displayName: string; // Original file name
+    sizeBytes: number;
+}
+
+/**
+ * A transcription + organization backend.
+ * Each backend module (groq.ts, gemini.ts, custom.ts) exports one of these;
+ * the processor and config modal only ever talk to this interface.
+ */
+export interface AIProvider {
+    id: Provider;
+    label: string;
+    models: string; // Short model description shown in the UI
+    key: ProviderKeyConfig;
+    capabilities: ProviderCapabilities;
+    defaults?: ProviderSettings;              // Used when a setting is left empty
+    settingsFields?: ProviderSettingField[];  // Rendered in ConfigModal
+    requiredSettings?: ProviderSettingField[];
+    transcribe: (
+        chunks: File[],
+        ctx: ProviderContext,
+        options?: TranscribeOptions
+    ) => Promise<TranscriptionResult>;
+    organize: (
+        transcription: string,
+        ctx: ProviderContext,
+        options?: OrganizeOptions
+    ) => Promise<Notes>;
+    validateKey: (ctx: ProviderContext) => Promise<boolean>;
+    listModels?: (ctx: ProviderContext) => Promise<string[]>;
+    // Audio this app left in the provider's storage, listed first so the user sees what gets deleted
+    listUploads?: (ctx: ProviderContext) => Promise<StoredUpload[]>;
+    deleteUploads?: (ctx: ProviderContext, uploads: StoredUpload[]) => Promise<number>; // Returns how many were deleted
+}
+
+/**
+ * A provider plus the key/settings it runs with.
+ */
+export interface PipelineStage {
+    provider: AIProvider;
+    ctx: ProviderContext;
+}
+
+export const PROVIDERS: Record<Provider, AIProvider> = {
+    groq: groqProvider,
+    gemini: geminiProvider,
+    custom: customProvider,
+};
+
+export const PROVIDER_LIST: AIProvider[] = Object.values(PROVIDERS);
+
+export function isProvider(value: unknown): value is Provider {
+    return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function getProvider(id: Provider): AIProvider {
+    return PROVIDERS[id] ?? PROVIDERS.groq;
+}
+
+const TRANSCRIPTION_MODEL_PATTERN = /whisper|transcri/i;
+
+/**
+ * Narrow a provider's /models listing to what makes sense for a field
+ * (speech-to-text models vs chat models). Falls back to the full list
+ * when the provider doesn't distinguish them (e.g. Gemini).
+ */
+export function modelsForField(models: string[], field: ProviderSettingField): string[] {
+    const speech = models.filter((m) => TRANSCRIPTION_MODEL_PATTERN.test(m));
+    if (!speech.length) return models;
+    return field === 'transcriptionModel'
+        ? speech
+        : models.filter((m) => !TRANSCRIPTION_MODEL_PATTERN.test(m));
+}
+
+/**
+ * What a provider is used for in a job: transcription and organization
+ * can be assigned to different providers.
+ */
+export type ProviderRole = 'transcribe' | 'organize';
+
+const ROLE_ONLY_FIELDS: Record<ProviderRole, ProviderSettingField> = {
+    transcribe: 'transcriptionModel',
+    organize: 'chatModel',
+};
+
+/**
+ * Drop the model fields that only matter for roles the provider isn't playing.
+ */
+export function fieldsForRoles(fields: ProviderSettingField[], roles: ProviderRole[]): ProviderSettingField[] {
+    const roleFields = Object.values(ROLE_ONLY_FIELDS);
+    return fields.filter((f) => !roleFields.includes(f) || roles.some((r) => ROLE_ONLY_FIELDS[r] === f));
+}
+
+/**
+ * True when the provider has everything it needs to play `roles` in a job
+ * (a key unless optional, plus any required settings).
+ */
+export function isProviderConfigured(
+    id: Provider,
+    encryptedKey: string,
+    settings: ProviderSettings = {},
+    roles: ProviderRole[] = ['transcribe', 'organize']
+): boolean {
+    const provider = getProvider(id);
+    if (!encryptedKey && !provider.key.optional) return false;
+    return fieldsForRoles(provider.requiredSettings || [], roles).every((field) => !!settings[field]?.trim());
+}
+
+/**
+ * Providers to try for a stage: the chosen one first, then the ones the user
+ * allowed as fallback, by priority. Nothing else ever receives the audio.
+ */
+export function fallbackOrder(primary: Provider, priority: Provider[], enabled: Provider[]): Provider[] {
+    return [primary, ...priority.filter((id) => id !== primary && enabled.includes(id))];
+}
+
+/**
+ * True when both jobs have a configured provider. `organizer` null means the
+ * transcription provider also organizes the notes.
+ */
+export function isPipelineConfigured(
+    transcriber: Provider,
+    organizer: Provider | null,
+    keys: Record<Provider, string>,
+    settings: Record<Provider, ProviderSettings>
+): boolean {
+    if (!organizer || organizer === transcriber) {
+        return isProviderConfigured(transcriber, keys[transcriber], settings[transcriber]);
+    }
+    return isProviderConfigured(transcriber, keys[transcriber], settings[transcriber], ['transcribe'])
+        && isProviderConfigured(organizer, keys[organizer], settings[organizer], ['organize']);
+}
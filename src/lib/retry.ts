@@ -0,0 +1,142 @@
+import { delay, isAbortError, throwIfAborted } from './abort';
+
+/**
+ * Shared retry/backoff for provider requests.
+ * Rate limits and transient server errors are retried (honoring Retry-After and
+ * provider reset hints); everything else is returned to the caller on the first try.
+ */
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Hooks callers pass down from the processor (provider options satisfy this shape).
+ */
+export interface RetryHooks {
+    signal?: AbortSignal;
+    onWait?: (seconds: number) => void; // Called before sleeping on a rate limit / retry
+}
+
+export interface RetryPolicy extends RetryHooks {
+    label: string;        // Log prefix, e.g. the provider name
+    maxAttempts?: number;
+    timeoutMs?: number;   // Per attempt; a timeout is not retried
+}
+
+export function timeoutError(): DOMException {
+    return new DOMException('La solicitud tardó demasiado', 'TimeoutError');
+}
+
+export function isTimeoutError(err: unknown): boolean {
+    return (err as { name?: string })?.name === 'TimeoutError';
+}
+
+/**
+ * Parse durations like "7.66s", "2m59.56s", "500ms" or "37s" (Groq / Gemini formats)
+ */
+export function parseDuration(value: string): number | undefined {
+    const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    let total = 0;
+    let matched = false;
+    for (const [, amount, unit] of value.matchAll(pattern)) {
+        total += parseFloat(amount) * units[unit];
+        matched = true;
+    }
+    return matched ? total : undefined;
+}
+
+/**
+ * How long the server asked us to wait, if it said so.
+ */
+async function serverDelayMs(response: Response): Promise<number | undefined> {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!Number.isNaN(seconds)) return seconds * 1000;
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    // Groq: time until the exhausted bucket refills
+    const resets = ['x-ratelimit-reset-tokens', 'x-ratelimit-reset-requests']
+        .map((h) => response.headers.get(h))
+        .map((v) => (v ? parseDuration(v) : undefined))
+        .filter((v): v is number => v !== undefined);
+    if (response.status === 429 && resets.length) return Math.max(...resets);
+
+    // Gemini: google.rpc.RetryInfo in the error body
+    try {
+        const body = await response.clone().json();
+        const info = body?.error?.details?.find((d: any) => d?.retryDelay);
+        if (info) return parseDuration(info.retryDelay);
+    } catch { }
+
+    return undefined;
+}
+
+function backoffMs(attempt: number): number {
+    const exponential = BASE_DELAY_MS * 2 ** attempt;
+    return Math.min(MAX_DELAY_MS, exponential / 2 + Math.random() * (exponential / 2)); // Jitter
+}
+
+async function fetchOnce(input: string, init: RequestInit, policy: RetryPolicy): Promise<Response> {
+    // An already-aborted signal never fires 'abort', so don't even send the request
+    throwIfAborted(policy.signal);
+    if (!policy.timeoutMs && !policy.signal) return fetch(input, init);
+
+    // The job's signal goes to fetch itself, so cancelling also stops reading the body;
+    // the timeout only covers the wait for the response headers
+    const timeout = new AbortController();
+    let timedOut = false;
+    const timeoutId = policy.timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            timeout.abort();
+        }, policy.timeoutMs)
+        : undefined;
+    const signal = policy.signal ? AbortSignal.any([policy.signal, timeout.signal]) : timeout.signal;
+
+    try {
+        return await fetch(input, { ...init, signal });
+    } catch (err) {
+        if (timedOut) throw timeoutError();
+        throw err;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * fetch() with retries. Resolves with the last response (ok or not) so callers keep
+ * their own error messages; rejects on cancellation, timeout, or repeated network failure.
+ */
+export async function fetchWithRetry(input: string, init: RequestInit, policy: RetryPolicy): Promise<Response> {
+    const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    for (let attempt = 0; ; attempt++) {
+        const isLast = attempt >= maxAttempts - 1;
+        let waitMs: number;
+
+        try {
+            const response = await fetchOnce(input, init, policy);
+            if (response.ok || !RETRYABLE_STATUS.has(response.status) || isLast) return response;
+
+            waitMs = Math.min(MAX_DELAY_MS, (await serverDelayMs(response)) ?? backoffMs(attempt));
+            console.warn(`[${policy.label}] Error ${response.status}, reintento ${attempt + 1}/${maxAttempts - 1} en ${Math.ceil(waitMs / 1000)}s`);
+        } catch (err) {
+            // Cancelled, timed out, or out of attempts: give up
+            if (isAbortError(err) || isTimeoutError(err) || isLast) throw err;
+
+            waitMs = backoffMs(attempt);
+            console.warn(`[${policy.label}] Error de red, reintento ${attempt + 1}/${maxAttempts - 1} en ${Math.ceil(waitMs / 1000)}s`, err);
+        }
+
+        policy.onWait?.(Math.ceil(waitMs / 1000));
+        await delay(waitMs, policy.signal);
+        policy.onWait?.(0);
+    }
+}
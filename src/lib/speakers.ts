@@ -0,0 +1,63 @@
+import type { NotesLanguage } from './prompts';
+
+/**
+ * Speaker turns in a transcript. Lines carry a speaker ID after the timestamp
+ * ("[02:15] [S2] text"); IDs map to display names the user can rename.
+ */
+
+export type SpeakerNames = Record<string, string>; // 'S1' → 'Prof. Rojas'
+
+// "[S2]" or "[S2]:" right after the timestamp
+export const SPEAKER_TAG = /^\[(S\d+)\]:?\s*/;
+const SPEAKER_TAGS = /\[(S\d+)\]:?[ \t]*/g;
+
+const SPEAKER_WORD: Record<NotesLanguage, string> = {
+    es: 'Hablante', en: 'Speaker', pt: 'Falante', fr: 'Intervenant', de: 'Sprecher', it: 'Relatore',
+};
+
+/**
+ * Speaker IDs in order of first appearance.
+ */
+export function speakerIds(transcription: string): string[] {
+    return [...new Set([...transcription.matchAll(SPEAKER_TAGS)].map((m) => m[1]))];
+}
+
+/**
+ * Names for every speaker in the transcript: the given ones, "Speaker N" for the rest.
+ */
+export function withDefaultNames(transcription: string, names: SpeakerNames, language: NotesLanguage = 'es'): SpeakerNames {
+    const result: SpeakerNames = {};
+    for (const id of speakerIds(transcription)) {
+        result[id] = names[id]?.trim() || `${SPEAKER_WORD[language]} ${id.slice(1)}`;
+    }
+    return result;
+}
+
+/**
+ * The transcript as people read it (and as the organizer gets it): "[02:15] Prof. Rojas: text".
+ */
+export function applySpeakerNames(transcription: string, names: SpeakerNames): string {
+    return transcription.replace(SPEAKER_TAGS, (tag, id: string) => (names[id] ? `${names[id]}: ` : tag));
+}
+
+/**
+ * Provider speaker labels ("SPEAKER_00", "A", ...) to sequential IDs, numbered by first appearance.
+ */
+export function speakerIdMapper(): (label?: string) => string | undefined {
+    const ids = new Map<string, string>();
+    return (label) => {
+        if (!label) return undefined;
+        if (!ids.has(label)) ids.set(label, `S${ids.size + 1}`);
+        return ids.get(label);
+    };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace a speaker's old name with the new one in generated notes (whole words only).
+ */
+export function renameInText(text: string, from: string, to: string): string {
+    if (!from || from === to) return text;
+    return text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(from)}(?![\\p{L}\\p{N}])`, 'gu'), to);
+}
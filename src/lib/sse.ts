@@ -0,0 +1,45 @@
+import { abortError } from './abort';
+
+/**
+ * Minimal reader for server-sent event streams (OpenAI-style chat completions,
+ * Gemini streamGenerateContent with alt=sse). Calls `onData` with each event's payload.
+ */
+
+export function isEventStream(response: Response): boolean {
+    return (response.headers.get('content-type') || '').includes('text/event-stream') && !!response.body;
+}
+
+export async function readEventStream(
+    response: Response,
+    onData: (data: string) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // fetch() only honors the signal until headers arrive; the body has to be cancelled by hand
+    const onAbort = () => reader.cancel().catch(() => { });
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (signal?.aborted) throw abortError();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).replace(/\r$/, '');
+                buffer = buffer.slice(newline + 1);
+                if (!line.startsWith('data:')) continue;
+
+                const data = line.slice(5).trim();
+                if (data && data !== '[DONE]') onData(data);
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
@@ -4,7 +4,9 @@ import { persist } from 'zustand/middleware';
 export type AppStep = 'upload' | 'transcribing' | 'ai-processing' | 'editor';
 export type PdfStyle = 'minimalista' | 'academico' | 'cornell';
 export type Locale = 'es' | 'en';
-export type Provider = 'groq' | 'gemini';
+export type Provider = 'groq' | 'gemini' | 'custom';
+export const SOURCE_LANGUAGES = ['auto', 'es', 'en', 'pt', 'fr', 'de', 'it'] as const;
+export type SourceLanguage = typeof SOURCE_LANGUAGES[number];
 export type ProcessingState = 'idle' | 'compressing' | 'uploading' | 'transcribing' | 'analyzing' | 'done' | 'error';
 
 interface AppState {
@@ -12,15 +14,24 @@ interface AppState {
     locale: Locale;
     setLocale: (locale: Locale) => void;
 
-    // Provider
+    // Provider (transcription) and optional separate provider for organizing notes
     provider: Provider;
     setProvider: (provider: Provider) => void;
-
-    // API Keys (one per provider)
-    apiKey: string;       // Groq
-    setApiKey: (key: string) => Promise<void>;
-    geminiKey: string;    // Gemini (Encrypted)
-    setGeminiKey: (key: string) => Promise<void>;
+    organizeProvider: Provider | null; // null = same as `provider`
+    setOrganizeProvider: (provider: Provider | null) => void;
+    providerPriority: Provider[]; // Fallback order when a stage fails on its provider
+    setProviderPriority: (order: Provider[]) => void;
+    fallbackProviders: Provider[]; // Providers allowed to take over a failed stage (opt-in: they get the audio)
+    toggleFallbackProvider: (provider: Provider) => void;
+
+    // API Keys (one per provider, encrypted)
+    keys: Record<Provider, string>;
+    setKey: (provider: Provider, key: string) => Promise<void>;
+    getKey: (provider: Provider) => Promise<string>; // Decrypted
+
+    // Provider settings (base URL, model names)
+    providerSettings: Record<Provider, ProviderSettings>;
+    setProviderSettings: (provider: Provider, settings: ProviderSettings) => void;
 
     // Active key helper
     activeKey: () => Promise<string>;
@@ -33,11 +44,32 @@ interface AppState {
     file: File | null;
     setFile: (file: File | null) => void;
 
+    // Spoken language of the recording (chosen per upload)
+    sourceLanguage: SourceLanguage;
+    setSourceLanguage: (language: SourceLanguage) => void;
+
+    // Language the notes are written in ('ui' = follow the interface locale)
+    notesLanguage: NotesLanguage | 'ui';
+    setNotesLanguage: (language: NotesLanguage | 'ui') => void;
+
+    // Note profile (prompt template) used to organize the next upload
+    profileId: number | null;
+    setProfileId: (id: number | null) => void;
+
+    // Course of the next upload; its glossary hints the transcriber ('' = none)
+    course: string;
+    setCourse: (course: string) => void;
+
     // Transcription
     transcription: string;
     setTranscription: (text: string) => void;
     transcriptionProgress: number;
     setTranscriptionProgress: (p: number) => void;
+    transcriptFlags: Record<number, SegmentFlag>; // Transcript line → why it should be double-checked
+    setTranscriptFlags: (flags: Record<number, SegmentFlag>) => void;
+    speakerNames: SpeakerNames; // Speaker ID → name shown in the transcript and notes
+    setSpeakerNames: (names: SpeakerNames) => void;
+    renameSpeaker: (id: string, name: string) => void; // Also renames them in the edited notes
 
     // AI Processing
     aiStep: number;
@@ -46,6 +78,8 @@ interface AppState {
     setTitle: (title: string) => void;
     organizedNotes: string;
     setOrganizedNotes: (notes: string) => void;
+    notesPreview: string; // Markdown of the notes while they stream in
+    setNotesPreview: (markdown: string) => void;
 
     // Editor
     editedNotes: string;
@@ -58,6 +92,10 @@ interface AppState {
     // Config
     configOpen: boolean;
     setConfigOpen: (open: boolean) => void;
+    profilesOpen: boolean;
+    setProfilesOpen: (open: boolean) => void;
+    glossaryOpen: boolean;
+    setGlossaryOpen: (open: boolean) => void;
 
     // Error
     error: string | null;
@@ -70,6 +108,12 @@ interface AppState {
     setProcessingProgress: (p: number) => void;
     compressionInfo: string;
     setCompressionInfo: (info: string) => void;
+    uploadedBytes: { sent: number; total: number } | null; // While a file is being uploaded to the provider
+    setUploadedBytes: (bytes: { sent: number; total: number } | null) => void;
+    activeProvider: Provider | null; // Provider running the current stage (differs from the configured one after failover)
+    setActiveProvider: (provider: Provider | null) => void;
+    rateLimitUntil: number; // Epoch ms while a provider call waits out a rate limit, 0 otherwise
+    setRateLimitUntil: (until: number) => void;
 
     // Persistence (ID only)
     currentProjectId: number | null;
@@ -105,13 +149,89 @@ function getInitialLocale(): Locale {
 function getInitialProvider(): Provider {
     if (typeof window === 'undefined') return 'groq';
     const stored = localStorage.getItem('scn-provider');
-    if (stored === 'groq' || stored === 'gemini') return stored;
+    if (isProvider(stored)) return stored;
     return 'groq';
 }
 
+function getInitialOrganizeProvider(): Provider | null {
+    if (typeof window === 'undefined') return null;
+    const stored = localStorage.getItem('scn-organize-provider');
+    return isProvider(stored) ? stored : null;
+}
+
+function getInitialProviderPriority(): Provider[] {
+    const all = PROVIDER_LIST.map((p) => p.id);
+    if (typeof window === 'undefined') return all;
+    let stored: unknown[] = [];
+    try {
+        stored = JSON.parse(localStorage.getItem('scn-provider-priority') || '[]');
+    } catch { }
+    const order = stored.filter(isProvider).filter((id, i, arr) => arr.indexOf(id) === i);
+    return [...order, ...all.filter((id) => !order.includes(id))]; // Providers added later go last
+}
+
+function getInitialFallbackProviders(): Provider[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem('scn-fallback-providers') || '[]');
+        return Array.isArray(stored) ? stored.filter(isProvider) : [];
+    } catch {
+        return [];
+    }
+}
+
+function getInitialSourceLanguage(): SourceLanguage {
+    if (typeof window === 'undefined') return 'auto';
+    const stored = localStorage.getItem('scn-source-lang');
+    return SOURCE_LANGUAGES.find((l) => l === stored) ?? 'auto';
+}
+
+function getInitialNotesLanguage(): NotesLanguage | 'ui' {
+    if (typeof window === 'undefined') return 'ui';
+    const stored = localStorage.getItem('scn-notes-lang');
+    return isNotesLanguage(stored) ? stored : 'ui';
+}
+
+function getInitialProfileId(): number | null {
+    if (typeof window === 'undefined') return null;
+    const stored = Number(localStorage.getItem('scn-profile'));
+    return Number.isInteger(stored) && stored > 0 ? stored : null;
+}
+
+function getInitialCourse(): string {
+    if (typeof window === 'undefined') return '';
+    return localStorage.getItem('scn-course') || '';
+}
+
+function getInitialKeys(): Record<Provider, string> {
+    const keys = {} as Record<Provider, string>;
+    for (const p of PROVIDER_LIST) {
+        keys[p.id] = typeof window !== 'undefined' ? localStorage.getItem(p.key.storageKey) || '' : '';
+    }
+    return keys;
+}
+
+function getInitialProviderSettings(): Record<Provider, ProviderSettings> {
+    const settings = {} as Record<Provider, ProviderSettings>;
+    let stored: Partial<Record<Provider, ProviderSettings>> = {};
+    if (typeof window !== 'undefined') {
+        try {
+            stored = JSON.parse(localStorage.getItem('scn-provider-settings') || '{}');
+        } catch { }
+    }
+    for (const p of PROVIDER_LIST) {
+        settings[p.id] = stored[p.id] || {};
+    }
+    return settings;
+}
+
 // Import DB dynamically to avoid SSR issues if store is used there (though unlikely in standard React usage)
-import { db, createProject, saveAudioSource, getActiveProject } from './db';
+import { db, createProject, saveAudioSource, getActiveProject, clearCheckpoints, clearStaleCheckpoints } from './db';
 import { encryptData, decryptData } from './crypto';
+import { PROVIDERS, PROVIDER_LIST, isProvider, type ProviderSettings } from './providers';
+import { isNotesLanguage, type NotesLanguage } from './prompts';
+import { renameInText, type SpeakerNames } from './speakers';
+import type { SegmentFlag } from './transcript-merge';
 
 export const useAppStore = create<AppState>()(
     persist(
@@ -139,38 +259,49 @@ export const useAppStore = create<AppState>()(
                 set({ provider });
             },
 
-            apiKey: typeof window !== 'undefined' ? localStorage.getItem('scn-api-key') || '' : '',
-            setApiKey: async (apiKey) => {
+            organizeProvider: getInitialOrganizeProvider(),
+            setOrganizeProvider: (organizeProvider) => {
                 if (typeof window !== 'undefined') {
-                    if (!apiKey) {
-                        localStorage.removeItem('scn-api-key');
-                        set({ apiKey: '' });
-                        return;
-                    }
-                    // Encrypt before storing
-                    const encrypted = await encryptData(apiKey);
-                    localStorage.setItem('scn-api-key', encrypted);
-                    set({ apiKey: encrypted }); // Store encrypted in state too (UI should decode if needed, but usually we just need it for requests)
+                    if (organizeProvider) localStorage.setItem('scn-organize-provider', organizeProvider);
+                    else localStorage.removeItem('scn-organize-provider');
                 }
+                set({ organizeProvider });
+            },
+
+            providerPriority: getInitialProviderPriority(),
+            setProviderPriority: (providerPriority) => {
+                if (typeof window !== 'undefined') localStorage.setItem('scn-provider-priority', JSON.stringify(providerPriority));
+                set({ providerPriority });
+            },
+
+            fallbackProviders: getInitialFallbackProviders(),
+            toggleFallbackProvider: (provider) => {
+                const current = get().fallbackProviders;
+                const fallbackProviders = current.includes(provider)
+                    ? current.filter((id) => id !== provider)
+                    : [...current, provider];
+                if (typeof window !== 'undefined') localStorage.setItem('scn-fallback-providers', JSON.stringify(fallbackProviders));
+                set({ fallbackProviders });
             },
 
-            geminiKey: typeof window !== 'undefined' ? localStorage.getItem('scn-gemini-key') || '' : '',
-            setGeminiKey: async (geminiKey) => {
+            keys: getInitialKeys(),
+            setKey: async (provider, key) => {
                 if (typeof window !== 'undefined') {
-                    if (!geminiKey) {
-                        localStorage.removeItem('scn-gemini-key');
-                        set({ geminiKey: '' });
+                    const { storageKey } = PROVIDERS[provider].key;
+                    if (!key) {
+                        localStorage.removeItem(storageKey);
+                        set({ keys: { ...get().keys, [provider]: '' } });
                         return;
                     }
-                    const encrypted = await encryptData(geminiKey);
-                    localStorage.setItem('scn-gemini-key', encrypted);
-                    set({ geminiKey: encrypted });
+                    // Encrypt before storing (state keeps the encrypted value too; requests decrypt on demand)
+                    const encrypted = await encryptData(key);
+                    localStorage.setItem(storageKey, encrypted);
+                    set({ keys: { ...get().keys, [provider]: encrypted } });
                 }
             },
 
-            activeKey: async () => {
-                const state = get();
-                const encrypted = state.provider === 'gemini' ? state.geminiKey : state.apiKey;
+            getKey: async (provider) => {
+                const encrypted = get().keys[provider];
                 if (!encrypted) return '';
 
                 // Decrypt on demand
@@ -182,21 +313,76 @@ export const useAppStore = create<AppState>()(
                 }
             },
 
+            activeKey: async () => get().getKey(get().provider),
+
+            providerSettings: getInitialProviderSettings(),
+            setProviderSettings: (provider, settings) => {
+                const providerSettings = { ...get().providerSettings, [provider]: settings };
+                if (typeof window !== 'undefined') localStorage.setItem('scn-provider-settings', JSON.stringify(providerSettings));
+                set({ providerSettings });
+            },
+
             step: 'upload',
             setStep: (step) => set({ step }),
 
             file: null,
             setFile: (file) => set({ file }),
 
+            sourceLanguage: getInitialSourceLanguage(),
+            setSourceLanguage: (sourceLanguage) => {
+                if (typeof window !== 'undefined') localStorage.setItem('scn-source-lang', sourceLanguage);
+                set({ sourceLanguage });
+            },
+
+            notesLanguage: getInitialNotesLanguage(),
+            setNotesLanguage: (notesLanguage) => {
+                if (typeof window !== 'undefined') localStorage.setItem('scn-notes-lang', notesLanguage);
+                set({ notesLanguage });
+            },
+
+            profileId: getInitialProfileId(),
+            setProfileId: (profileId) => {
+                if (typeof window !== 'undefined') {
+                    if (profileId) localStorage.setItem('scn-profile', String(profileId));
+                    else localStorage.removeItem('scn-profile');
+                }
+                set({ profileId });
+            },
+
+            course: getInitialCourse(),
+            setCourse: (course) => {
+                if (typeof window !== 'undefined') {
+                    if (course) localStorage.setItem('scn-course', course);
+                    else localStorage.removeItem('scn-course');
+                }
+                set({ course });
+            },
+
             transcription: '',
             setTranscription: (transcription) => set({ transcription }),
             transcriptionProgress: 0,
             setTranscriptionProgress: (transcriptionProgress) => set({ transcriptionProgress }),
+            transcriptFlags: {},
+            setTranscriptFlags: (transcriptFlags) => set({ transcriptFlags }),
+            speakerNames: {},
+            setSpeakerNames: (speakerNames) => set({ speakerNames }),
+            renameSpeaker: (id, name) => {
+                const { speakerNames, editedNotes, currentProjectId } = get();
+                const previous = speakerNames[id];
+                const next = name.trim();
+                if (!next || next === previous) return;
+
+                const updated = { ...speakerNames, [id]: next };
+                set({ speakerNames: updated, editedNotes: renameInText(editedNotes, previous, next) });
+                if (currentProjectId) db.projects.update(currentProjectId, { speakers: updated });
+            },
 
             aiStep: 0,
             setAiStep: (aiStep) => set({ aiStep }),
             organizedNotes: '',
             setOrganizedNotes: (organizedNotes) => set({ organizedNotes, editedNotes: organizedNotes }),
+            notesPreview: '',
+            setNotesPreview: (notesPreview) => set({ notesPreview }),
 
             editedNotes: '',
             setEditedNotes: (editedNotes) => set({ editedNotes }),
@@ -209,6 +395,10 @@ export const useAppStore = create<AppState>()(
 
             configOpen: false,
             setConfigOpen: (configOpen) => set({ configOpen }),
+            profilesOpen: false,
+            setProfilesOpen: (profilesOpen) => set({ profilesOpen }),
+            glossaryOpen: false,
+            setGlossaryOpen: (glossaryOpen) => set({ glossaryOpen }),
 
             error: null,
             setError: (error) => set({ error }),
@@ -219,6 +409,12 @@ export const useAppStore = create<AppState>()(
             setProcessingProgress: (processingProgress) => set({ processingProgress }),
             compressionInfo: '',
             setCompressionInfo: (compressionInfo) => set({ compressionInfo }),
+            uploadedBytes: null,
+            setUploadedBytes: (uploadedBytes) => set({ uploadedBytes }),
+            activeProvider: null,
+            setActiveProvider: (activeProvider) => set({ activeProvider }),
+            rateLimitUntil: 0,
+            setRateLimitUntil: (rateLimitUntil) => set({ rateLimitUntil }),
 
             currentProjectId: null,
             setCurrentProjectId: (id) => set({ currentProjectId: id }),
@@ -226,10 +422,19 @@ export const useAppStore = create<AppState>()(
             startProcessing: async (file) => {
                 // Initialize DB Project
                 try {
-                    const id = await createProject(file.name);
+                    const { notesLanguage, locale, course } = get();
+                    const id = await createProject(
+                        file.name,
+                        get().sourceLanguage,
+                        get().profileId ?? undefined,
+                        notesLanguage === 'ui' ? locale : notesLanguage,
+                        course.trim() || undefined
+                    );
                     await saveAudioSource(id, file);
                     // Explicitly mark as processing so restoreSession knows to resume it
                     await db.projects.update(id, { status: 'processing' });
+                    // A new job replaces any earlier one; their resume data is dead weight now
+                    await clearStaleCheckpoints(id);
 
                     set({
                         currentProjectId: id,
@@ -252,15 +457,29 @@ export const useAppStore = create<AppState>()(
                 }
             },
 
-            cancelProcessing: () => set({
-                processingState: 'idle',
-                processingProgress: 0,
-                file: null,
-                step: 'upload',
-                currentProjectId: null,
-                transcription: '',
-                organizedNotes: ''
-            }),
+            cancelProcessing: () => {
+                // GlobalAudioProcessor aborts the running job when it sees 'idle'
+                const id = get().currentProjectId;
+                if (id) {
+                    db.projects.update(id, { status: 'draft' }); // Don't auto-resume on next load
+                    clearCheckpoints(id);
+                }
+                set({
+                    processingState: 'idle',
+                    processingProgress: 0,
+                    uploadedBytes: null,
+                    activeProvider: null,
+                    rateLimitUntil: 0,
+                    file: null,
+                    step: 'upload',
+                    currentProjectId: null,
+                    transcription: '',
+                    transcriptFlags: {},
+                    speakerNames: {},
+                    organizedNotes: '',
+                    notesPreview: ''
+                });
+            },
 
             restoreSession: async () => {
                 if (typeof window === 'undefined') return;
@@ -278,13 +497,20 @@ export const useAppStore = create<AppState>()(
 
                         set({ currentProjectId: active.project.id });
 
+                        const language = SOURCE_LANGUAGES.find((l) => l === active.project.language);
+                        if (language) set({ sourceLanguage: language });
+
                         // Note: The rest of the state (transcription, notes) is handled by zustand persist
                         // But we might need to nudge the GlobalAudioProcessor to resume if state was mid-process
                         if (active.project.status === 'processing') {
+                            // The processor skips every stage/chunk already checkpointed in the DB
                             console.log('Auto-resuming interrupted process...');
+                            const transcription = active.state?.transcription;
                             set({
                                 processingState: 'compressing',
-                                step: 'transcribing' // Force UI to show progress, not upload
+                                // Force UI to show progress, not upload
+                                step: transcription ? 'ai-processing' : 'transcribing',
+                                ...(transcription ? { transcription } : {})
                             });
                         }
                     }
@@ -300,14 +526,20 @@ export const useAppStore = create<AppState>()(
                     file: null,
                     transcription: '',
                     transcriptionProgress: 0,
+                    transcriptFlags: {},
+                    speakerNames: {},
                     aiStep: 0,
                     organizedNotes: '',
+                    notesPreview: '',
                     editedNotes: '',
                     title: '',
                     error: null,
                     processingState: 'idle',
                     processingProgress: 0,
                     compressionInfo: '',
+                    uploadedBytes: null,
+                    activeProvider: null,
+                    rateLimitUntil: 0,
                     currentProjectId: null
                     // Keep keys, provider, locale, style, theme
                 });
@@ -318,6 +550,8 @@ export const useAppStore = create<AppState>()(
             partialize: (state) => ({
                 step: state.step,
                 transcription: state.transcription,
+                transcriptFlags: state.transcriptFlags,
+                speakerNames: state.speakerNames,
                 organizedNotes: state.organizedNotes,
                 editedNotes: state.editedNotes,
                 title: state.title,
@@ -0,0 +1,88 @@
+import { delay } from './abort';
+import { parseDuration, type RetryHooks } from './retry';
+
+/**
+ * Client-side view of an OpenAI-compatible account's tokens-per-minute window,
+ * fed by the x-ratelimit-*-tokens headers Groq returns on every chat completion.
+ */
+
+const CHARS_PER_TOKEN = 4; // Rough average for Spanish/English prose
+const LIMITS_STORAGE_KEY = 'scn-token-limits';
+
+export interface TokenBudget {
+    limit?: number;  // Tokens per minute for this account/model, once known
+    chunkChars: (reservedTokens: number, maxChars: number) => number;
+    waitFor: (tokens: number, hooks?: RetryHooks) => Promise<void>;
+    update: (response: Response) => void;
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function loadLimits(): Record<string, number> {
+    if (typeof window === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(LIMITS_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+function headerNumber(response: Response, name: string): number | undefined {
+    const value = response.headers.get(name);
+    if (value === null) return undefined;
+    const n = Number(value);
+    return Number.isNaN(n) ? undefined : n;
+}
+
+/**
+ * Budget for one endpoint + model. The TPM limit is remembered across jobs
+ * (localStorage) so chunk sizes can be planned before the first request.
+ */
+export function createTokenBudget(key: string): TokenBudget {
+    let remainingTokens: number | undefined;
+    let tokensResetAt = 0;
+
+    const budget: TokenBudget = {
+        limit: loadLimits()[key],
+
+        // Largest chunk whose request (chunk + prompt + output) fits in one minute's tokens
+        chunkChars: (reservedTokens, maxChars) => {
+            if (!budget.limit) return maxChars;
+            const available = budget.limit - reservedTokens;
+            return Math.max(2000, Math.min(maxChars, available * CHARS_PER_TOKEN));
+        },
+
+        // Sleep until the window has room for `tokens` (no-op when headers never came back)
+        waitFor: async (tokens, hooks = {}) => {
+            const now = Date.now();
+            if (remainingTokens === undefined || remainingTokens >= tokens || tokensResetAt <= now) return;
+
+            const waitMs = tokensResetAt - now;
+            console.log(`[TokenBudget] ${key}: esperando ${Math.ceil(waitMs / 1000)}s para ${tokens} tokens`);
+            hooks.onWait?.(Math.ceil(waitMs / 1000));
+            await delay(waitMs, hooks.signal);
+            hooks.onWait?.(0);
+            remainingTokens = budget.limit; // Window has reset
+        },
+
+        update: (response) => {
+            const limit = headerNumber(response, 'x-ratelimit-limit-tokens');
+            const now = Date.now();
+
+            remainingTokens = headerNumber(response, 'x-ratelimit-remaining-tokens') ?? remainingTokens;
+            const resetTokens = response.headers.get('x-ratelimit-reset-tokens');
+            if (resetTokens) tokensResetAt = now + (parseDuration(resetTokens) ?? 0);
+
+            if (limit && limit !== budget.limit) {
+                budget.limit = limit;
+                if (typeof window !== 'undefined') {
+                    localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify({ ...loadLimits(), [key]: limit }));
+                }
+            }
+        },
+    };
+
+    return budget;
+}
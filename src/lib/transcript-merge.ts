@@ -0,0 +1,170 @@
+import type { AudioRange } from './audio-processor';
+import { SPEAKER_TAG } from './speakers';
+
+// Why a segment should be double-checked (see transcript-quality.ts)
+export type SegmentFlag = 'low-confidence' | 'repetition';
+
+export interface TimedSegment {
+    start: number; // Seconds from the start of the original recording
+    end: number;
+    text: string;
+    speaker?: string; // Speaker ID ('S1', 'S2', ...) when the transcriber tells voices apart
+    // Whisper confidence (verbose_json); absent for LLM transcribers
+    avgLogprob?: number;
+    noSpeechProb?: number;
+    compressionRatio?: number;
+    flag?: SegmentFlag;
+    dropped?: boolean; // Judged a hallucination: stored, but left out of the transcript
+}
+
+export interface TranscribedPart {
+    range: AudioRange;
+    segments: TimedSegment[];
+}
+
+const MIN_MATCH_WORDS = 2;
+const EDGE_SLACK_SECONDS = 1; // Whisper segment bounds are approximate
+
+interface WordRef {
+    seg: number;  // Index into the segment list
+    word: number; // Index into that segment's words
+    norm: string;
+}
+
+export function formatTimestamp(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `[${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}]`;
+}
+
+/**
+ * Final transcript text, one "[MM:SS] [S1] text" line per segment.
+ * Speaker tags are left out when there's only one voice.
+ */
+export function formatTranscript(segments: TimedSegment[]): string {
+    const kept = segments.filter((s) => !s.dropped);
+    const multipleSpeakers = new Set(kept.map((s) => s.speaker).filter(Boolean)).size > 1;
+    return kept
+        .map((seg) => `${formatTimestamp(seg.start)} ${multipleSpeakers && seg.speaker ? `[${seg.speaker}] ` : ''}${seg.text}`)
+        .join('\n');
+}
+
+const TIMESTAMP_LINE = /^\s*\[(?:(\d+):)?(\d{1,3}):(\d{2})\]\s*(.*)$/;
+
+/**
+ * Split "[MM:SS] text" lines (as written by LLM transcribers) into segments,
+ * shifted by `offset`. Untimed lines are appended to the preceding segment;
+ * a "[S1]" tag after the timestamp sets the segment's speaker.
+ * `end` is the next segment's start; the last one ends at `lastEnd` when known.
+ */
+export function parseTimestampedText(text: string, offset: number = 0, lastEnd?: number): TimedSegment[] {
+    const segments: TimedSegment[] = [];
+
+    for (const line of text.split('\n')) {
+        const match = line.match(TIMESTAMP_LINE);
+        if (match) {
+            const [, hours, mins, secs, rest] = match;
+            const start = offset + Number(hours || 0) * 3600 + Number(mins) * 60 + Number(secs);
+            const speaker = rest.match(SPEAKER_TAG)?.[1];
+            segments.push({ start, end: start, text: rest.replace(SPEAKER_TAG, '').trim(), ...(speaker ? { speaker } : {}) });
+        } else if (line.trim()) {
+            const current = segments[segments.length - 1];
+            if (current) current.text = `${current.text} ${line.trim()}`.trim();
+            else segments.push({ start: offset, end: offset, text: line.trim() });
+        }
+    }
+
+    segments.forEach((seg, i) => {
+        seg.end = segments[i + 1]?.start ?? Math.max(seg.start, lastEnd ?? seg.start);
+    });
+    return segments.filter((s) => s.text);
+}
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+function toWords(segments: TimedSegment[], from: number): WordRef[] {
+    const refs: WordRef[] = [];
+    for (let s = from; s < segments.length; s++) {
+        segments[s].text.split(/\s+/).forEach((w, i) => {
+            const norm = normalize(w);
+            if (norm) refs.push({ seg: s, word: i, norm });
+        });
+    }
+    return refs;
+}
+
+/**
+ * Longest run of identical words between the end of `a` and the start of `b`.
+ */
+function longestCommonRun(a: WordRef[], b: WordRef[]): { aEnd: number; bEnd: number; length: number } {
+    let best = { aEnd: -1, bEnd: -1, length: 0 };
+    let prev = new Array(b.length + 1).fill(0);
+
+    for (let i = 1; i <= a.length; i++) {
+        const row = new Array(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            if (a[i - 1].norm === b[j - 1].norm) {
+                row[j] = prev[j - 1] + 1;
+                if (row[j] > best.length) best = { aEnd: i - 1, bEnd: j - 1, length: row[j] };
+            }
+        }
+        prev = row;
+    }
+    return best;
+}
+
+function keepWords(segment: TimedSegment, predicate: (index: number) => boolean): TimedSegment {
+    const text = segment.text.split(/\s+/).filter((_, i) => predicate(i)).join(' ').trim();
+    return { ...segment, text };
+}
+
+/**
+ * Join transcripts of consecutive (possibly overlapping) chunks into one.
+ * Where chunks overlap, the repeated words are aligned and kept only once;
+ * if no alignment is found, segments already covered by the previous chunk are dropped.
+ */
+export function mergeTranscriptParts(parts: TranscribedPart[]): TimedSegment[] {
+    let merged: TimedSegment[] = [];
+
+    parts.forEach((part, index) => {
+        const next = part.segments.filter((s) => s.text.trim());
+        const prevRange = parts[index - 1]?.range;
+
+        if (index === 0 || merged.length === 0 || !prevRange?.end || prevRange.end <= part.range.start) {
+            merged = merged.concat(next);
+            return;
+        }
+
+        const overlapStart = part.range.start - EDGE_SLACK_SECONDS;
+        const overlapEnd = prevRange.end + EDGE_SLACK_SECONDS;
+
+        const tailFrom = Math.max(0, merged.findIndex((s) => s.end > overlapStart));
+        const headCount = next.findIndex((s) => s.start >= overlapEnd);
+        const head = next.slice(0, headCount === -1 ? next.length : headCount);
+
+        const tailWords = toWords(merged, tailFrom);
+        const headWords = toWords(head, 0);
+        const match = longestCommonRun(tailWords, headWords);
+
+        if (match.length >= MIN_MATCH_WORDS) {
+            // Keep the previous chunk up to the end of the shared run, then continue with the next chunk after it
+            const cutA = tailWords[match.aEnd];
+            const cutB = headWords[match.bEnd];
+
+            const kept = merged.slice(0, cutA.seg);
+            kept.push(keepWords(merged[cutA.seg], (i) => i <= cutA.word));
+
+            const rest = next.slice(cutB.seg + 1);
+            const partial = keepWords(next[cutB.seg], (i) => i > cutB.word);
+            if (partial.text) rest.unshift(partial);
+
+            merged = kept.concat(rest);
+        } else {
+            // No textual alignment: fall back to time, dropping what the previous chunk already covered
+            const lastEnd = merged[merged.length - 1].end;
+            merged = merged.concat(next.filter((s) => s.end > lastEnd));
+        }
+    });
+
+    return merged;
+}
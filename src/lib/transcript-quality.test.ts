@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { assessSegments, lineFlags } from './transcript-quality';
+import { formatTranscript } from './transcript-merge';
+
+describe('assessSegments', () => {
+    it('keeps a confident sentence that contains a known hallucinated phrase, flagged for review', () => {
+        const { segments, dropped } = assessSegments([
+            { start: 0, end: 4, text: 'Hoy vamos a comparar los subtítulos de la película con el guion.', avgLogprob: -0.2, noSpeechProb: 0.01 },
+        ]);
+        expect(dropped).toBe(0);
+        expect(segments[0].dropped).toBeUndefined();
+        expect(segments[0].flag).toBe('repetition');
+        expect(formatTranscript(segments)).toContain('subtítulos de la película');
+    });
+
+    it('drops a known phrase decoded over silence or with low confidence', () => {
+        const { segments, dropped } = assessSegments([
+            { start: 0, end: 2, text: 'Hola a todos', avgLogprob: -0.3, noSpeechProb: 0.05 },
+            { start: 2, end: 4, text: 'Subtítulos realizados por la comunidad de Amara.org', avgLogprob: -0.4, noSpeechProb: 0.8 },
+            { start: 4, end: 6, text: 'Gracias por ver el video.', avgLogprob: -1.3, noSpeechProb: 0.1 },
+        ]);
+        expect(dropped).toBe(2);
+        expect(segments.map((s) => !!s.dropped)).toEqual([false, true, true]);
+        expect(formatTranscript(segments)).toBe('[00:00] Hola a todos');
+    });
+
+    it('keeps repeated segments in the result, marked as dropped after the first', () => {
+        const { segments, dropped } = assessSegments([
+            { start: 0, end: 2, text: 'bien' },
+            { start: 2, end: 4, text: 'bien' },
+            { start: 4, end: 6, text: 'bien' },
+            { start: 6, end: 8, text: 'final', avgLogprob: -1.5 },
+        ]);
+        expect(dropped).toBe(2);
+        expect(segments).toHaveLength(4);
+        expect(segments[0]).toMatchObject({ end: 6, flag: 'repetition' });
+        expect(lineFlags(segments)).toEqual({ 0: 'repetition', 1: 'low-confidence' });
+    });
+});
@@ -0,0 +1,130 @@
+import type { SegmentFlag, TimedSegment } from './transcript-merge';
+
+/**
+ * Whisper hallucination checks on verbose_json segments: known filler phrases said over
+ * silence or decoded with low confidence are dropped, repetition loops collapsed, and
+ * doubtful passages flagged for review.
+ */
+
+// Whisper's own decoding fallbacks use these thresholds
+const LOW_LOGPROB = -1.0;
+const HIGH_NO_SPEECH = 0.6;
+const HIGH_COMPRESSION_RATIO = 2.4;
+
+const MAX_LOOP_WORDS = 8;      // Longest phrase checked for loops
+const MIN_LOOP_REPEATS = 3;    // Times a phrase must repeat in a row (single words: one more)
+const MIN_REPEATED_SEGMENTS = 3;
+
+// Subtitle credits and video outros Whisper learned from its training data
+const HALLUCINATED_PHRASES = [
+    /subt[ií]tul(os|ado)s?\s+(realizados\s+|hechos\s+)?(por|de)\b/i,
+    /amara\.org/i,
+    /gracias\s+por\s+ver(\s+el\s+v[ií]deo)?\W*$/i,
+    /suscr[ií]bete/i,
+    /thanks?\s+(you\s+)?for\s+watching/i,
+    /please\s+subscribe/i,
+];
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+function isHallucinatedPhrase(segment: TimedSegment): boolean {
+    return segment.text.length < 100 && HALLUCINATED_PHRASES.some((re) => re.test(segment.text));
+}
+
+function isSilence(segment: TimedSegment): boolean {
+    return (segment.noSpeechProb ?? 0) > HIGH_NO_SPEECH && (segment.avgLogprob ?? 0) < LOW_LOGPROB;
+}
+
+// Either signal is enough to distrust a known phrase; real speech mentioning "subtítulos" has neither
+function isDoubtful(segment: TimedSegment): boolean {
+    return (segment.noSpeechProb ?? 0) > HIGH_NO_SPEECH || (segment.avgLogprob ?? 0) < LOW_LOGPROB;
+}
+
+/**
+ * Collapse a phrase repeated over and over ("y entonces y entonces y entonces...") to one occurrence.
+ */
+export function collapseLoops(text: string): { text: string; looped: boolean } {
+    const words = text.split(/\s+/).filter(Boolean);
+    const norms = words.map(normalize);
+    const same = (a: number, b: number, n: number) => {
+        for (let k = 0; k < n; k++) if (norms[a + k] !== norms[b + k]) return false;
+        return true;
+    };
+
+    const out: string[] = [];
+    let looped = false;
+    let i = 0;
+    while (i < words.length) {
+        let skip = 0;
+        for (let n = 1; n <= MAX_LOOP_WORDS && !skip; n++) {
+            let count = 1;
+            while (i + (count + 1) * n <= words.length && same(i, i + count * n, n)) count++;
+            if (count >= MIN_LOOP_REPEATS + (n === 1 ? 1 : 0)) {
+                out.push(...words.slice(i, i + n));
+                skip = n * count;
+            }
+        }
+        if (skip) {
+            looped = true;
+            i += skip;
+        } else {
+            out.push(words[i]);
+            i++;
+        }
+    }
+    return { text: out.join(' '), looped };
+}
+
+const sameText = (a: TimedSegment, b: TimedSegment) => normalize(a.text.replace(/\s+/g, '')) === normalize(b.text.replace(/\s+/g, ''));
+
+/**
+ * Mark hallucinated segments as dropped and flag the ones worth double-checking.
+ * Every segment is returned (dropped ones too, for the segments table); formatTranscript skips the dropped.
+ * A known phrase is only dropped with a silence or low-confidence signal, otherwise it's flagged;
+ * segments without confidence data (LLM transcribers) are never dropped for a phrase.
+ */
+export function assessSegments(segments: TimedSegment[]): { segments: TimedSegment[]; dropped: number } {
+    const result: TimedSegment[] = [];
+    let dropped = 0;
+
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const knownPhrase = isHallucinatedPhrase(segment);
+        if (isSilence(segment) || (knownPhrase && isDoubtful(segment))) {
+            result.push({ ...segment, dropped: true });
+            dropped++;
+            continue;
+        }
+
+        // The same line over several segments in a row: keep the first
+        let run = 1;
+        while (i + run < segments.length && sameText(segment, segments[i + run])) run++;
+        const repeated = run >= MIN_REPEATED_SEGMENTS;
+
+        const { text, looped } = collapseLoops(segment.text);
+        let flag: SegmentFlag | undefined;
+        if (repeated || looped || knownPhrase || (segment.compressionRatio ?? 0) > HIGH_COMPRESSION_RATIO) flag = 'repetition';
+        else if ((segment.avgLogprob ?? 0) < LOW_LOGPROB) flag = 'low-confidence';
+
+        result.push({ ...segment, ...(repeated ? { end: segments[i + run - 1].end } : {}), text, ...(flag ? { flag } : {}) });
+
+        if (repeated) {
+            for (let k = 1; k < run; k++) result.push({ ...segments[i + k], dropped: true });
+            dropped += run - 1;
+            i += run - 1;
+        }
+    }
+
+    return { segments: result, dropped };
+}
+
+/**
+ * Flags by transcript line (formatTranscript writes one line per segment that wasn't dropped).
+ */
+export function lineFlags(segments: TimedSegment[]): Record<number, SegmentFlag> {
+    const flags: Record<number, SegmentFlag> = {};
+    segments.filter((seg) => !seg.dropped).forEach((seg, i) => {
+        if (seg.flag) flags[i] = seg.flag;
+    });
+    return flags;
+}